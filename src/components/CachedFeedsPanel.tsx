@@ -0,0 +1,77 @@
+import React from 'react';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { CachedFeedSummary } from '@/utils/gtfsUtils/gtfsTypes';
+
+interface CachedFeedsPanelProps {
+  cachedFeeds: CachedFeedSummary[];
+  onLoadCachedFeed: (fingerprint: string) => void;
+  onDeleteCachedFeed: (fingerprint: string) => void;
+  isLoading: boolean;
+}
+
+/**
+ * Format a byte count for display
+ */
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+/**
+ * List of the parsed feeds stored in the browser, with load and delete buttons
+ */
+export function CachedFeedsPanel({
+  cachedFeeds,
+  onLoadCachedFeed,
+  onDeleteCachedFeed,
+  isLoading,
+}: CachedFeedsPanelProps) {
+  if (cachedFeeds.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">No feeds cached</p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {cachedFeeds.map((feed) => (
+        <li
+          key={feed.fingerprint}
+          className="flex items-center justify-between gap-2 rounded-md border p-2 text-xs"
+        >
+          <div className="min-w-0">
+            <p className="truncate font-medium" title={feed.source}>{feed.source}</p>
+            <p className="text-muted-foreground">
+              {feed.feedVersion ? `Version ${feed.feedVersion} · ` : ''}
+              {formatSize(feed.sizeBytes)} · {feed.stopCount} stops · {format(new Date(feed.savedAt), 'PP')}
+            </p>
+          </div>
+          <div className="flex shrink-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onLoadCachedFeed(feed.fingerprint)}
+              disabled={isLoading}
+            >
+              <FolderOpen className="h-4 w-4" />
+              <span className="sr-only">Load cached feed</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onDeleteCachedFeed(feed.fingerprint)}
+              disabled={isLoading}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete cached feed</span>
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -5,8 +5,19 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
 import { StopSelector } from '@/components/StopSelector';
+import { FeedLoader } from '@/components/FeedLoader';
+import { StreetNetworkLoader } from '@/components/StreetNetworkLoader';
+import { ValidationReportPanel } from '@/components/ValidationReportPanel';
+import { CachedFeedsPanel } from '@/components/CachedFeedsPanel';
 import { Input } from '@/components/ui/input';
-import { RefreshCw, Settings } from 'lucide-react';
+import { CalendarIcon, RefreshCw, Settings } from 'lucide-react';
+import { format } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
 import { 
   Select,
   SelectContent,
@@ -15,32 +26,144 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { Stop, TransportMode } from '@/types/gtfs';
+import { FeedInfo, Stop, TransportMode } from '@/types/gtfs';
+import {
+  BikeOptions,
+  CachedFeedSummary,
+  FrequencyExpansionMode,
+  StationIndex,
+  TransferOptions,
+  UnknownAccessibilityPolicy,
+  ValidationReport,
+  WheelchairOptions
+} from '@/utils/gtfsUtils/gtfsTypes';
+import { parseServiceDate } from '@/utils/gtfsUtils/calendarUtils';
+import { TRANSPORT_MODE_LABELS } from '@/utils/gtfsParser';
+import { formatMinutesToTime, parseTimeToMinutes } from '@/utils/gtfsUtils/timeUtils';
+import { InitialWaitMode, ProfileStatistic, RoutingConstraints } from '@/utils/routingUtils/types';
+import { IsochroneMode } from '@/utils/isochroneUtils/types';
+import { StreetNetwork } from '@/utils/streetUtils/types';
+
+const DEPARTURE_WINDOWS = [
+  { minutes: 0, label: 'Single departure' },
+  { minutes: 30, label: '30 minute window' },
+  { minutes: 60, label: '1 hour window' },
+  { minutes: 120, label: '2 hour window' },
+];
+
+const PROFILE_STATISTICS: { id: ProfileStatistic; label: string }[] = [
+  { id: 'min', label: 'Best case' },
+  { id: 'median', label: 'Median' },
+  { id: 'p90', label: '90th percentile' },
+];
+
+const INITIAL_WAIT_MODES: { id: InitialWaitMode; label: string; description: string }[] = [
+  { id: 'schedule', label: 'Full schedule from chosen time', description: 'Includes the wait for the next departure' },
+  { id: 'half-headway', label: 'Half headway', description: 'Average wait when arriving at a random time' },
+  { id: 'exact', label: 'Exact departure', description: 'No wait, as if arriving just in time' },
+];
+
+const UNKNOWN_ACCESSIBILITY_POLICIES: { id: UnknownAccessibilityPolicy; label: string }[] = [
+  { id: 'inaccessible', label: 'Treat unknown as not accessible' },
+  { id: 'accessible', label: 'Treat unknown as accessible' },
+];
+
+// Slider positions standing for no walking limit
+const NO_LIMIT_WALK_MINUTES = 60;
+const NO_LIMIT_WALK_METERS = 2000;
+
+const UNKNOWN_BIKE_POLICIES: { id: UnknownAccessibilityPolicy; label: string }[] = [
+  { id: 'inaccessible', label: 'Treat unknown as no bikes' },
+  { id: 'accessible', label: 'Treat unknown as bikes allowed' },
+];
 
 interface ControlPanelProps {
   stops: Stop[];
+  stationIndex: StationIndex;
   selectedStops: Stop[];
   onSelectStop: (stop: Stop) => void;
   onRemoveStop: (stopId: string) => void;
   timeRadiusMinutes: number;
   onTimeRadiusChange: (value: number) => void;
+  arriveBy: boolean;
+  onArriveByChange: (arriveBy: boolean) => void;
+  travelDate: Date;
+  onTravelDateChange: (date: Date) => void;
+  departureTime: string;
+  onDepartureTimeChange: (time: string) => void;
+  departureWindowMinutes: number;
+  onDepartureWindowChange: (minutes: number) => void;
+  profileStatistic: ProfileStatistic;
+  onProfileStatisticChange: (statistic: ProfileStatistic) => void;
+  initialWait: InitialWaitMode;
+  onInitialWaitChange: (mode: InitialWaitMode) => void;
+  compareWheelchair: boolean;
+  onCompareWheelchairChange: (compare: boolean) => void;
+  wheelchairOptions: WheelchairOptions;
+  onWheelchairOptionsChange: (options: WheelchairOptions) => void;
+  compareBike: boolean;
+  onCompareBikeChange: (compare: boolean) => void;
+  bikeOptions: BikeOptions;
+  onBikeOptionsChange: (options: BikeOptions) => void;
   selectedModes: TransportMode[];
   onToggleMode: (mode: TransportMode) => void;
   onCalculateIsochrones: () => void;
   isLoading: boolean;
   showSettings: boolean;
   onToggleSettings: () => void;
+  onLoadFeed: (file: File) => void;
+  feedName: string;
+  feedProgressMessage: string;
+  feedInfo?: FeedInfo;
+  validationReport: ValidationReport | null;
+  cachedFeeds: CachedFeedSummary[];
+  onLoadCachedFeed: (fingerprint: string) => void;
+  onDeleteCachedFeed: (fingerprint: string) => void;
+  feedTimezone: string;
+  frequencyMode: FrequencyExpansionMode;
+  onFrequencyModeChange: (mode: FrequencyExpansionMode) => void;
+  transferOptions: TransferOptions;
+  onTransferOptionsChange: (options: TransferOptions) => void;
+  routingConstraints: RoutingConstraints;
+  onRoutingConstraintsChange: (constraints: RoutingConstraints) => void;
+  isochroneMode: IsochroneMode;
+  onIsochroneModeChange: (mode: IsochroneMode) => void;
+  streetNetwork: StreetNetwork | null;
+  streetProgressMessage: string;
+  onLoadStreetNetwork: (file: File) => void;
+  onClearStreetNetwork: () => void;
   mapToken?: string;
   onMapTokenChange?: (token: string) => void;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
   stops,
+  stationIndex,
   selectedStops,
   onSelectStop,
   onRemoveStop,
   timeRadiusMinutes,
   onTimeRadiusChange,
+  arriveBy,
+  onArriveByChange,
+  travelDate,
+  onTravelDateChange,
+  departureTime,
+  onDepartureTimeChange,
+  departureWindowMinutes,
+  onDepartureWindowChange,
+  profileStatistic,
+  onProfileStatisticChange,
+  initialWait,
+  onInitialWaitChange,
+  compareWheelchair,
+  onCompareWheelchairChange,
+  wheelchairOptions,
+  onWheelchairOptionsChange,
+  compareBike,
+  onCompareBikeChange,
+  bikeOptions,
+  onBikeOptionsChange,
   selectedModes,
   onToggleMode,
   onCalculateIsochrones,
@@ -49,7 +172,33 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onMapTokenChange = () => {}, // Default no-op function
   showSettings,
   onToggleSettings,
+  onLoadFeed,
+  feedName,
+  feedProgressMessage,
+  feedInfo,
+  validationReport,
+  cachedFeeds,
+  onLoadCachedFeed,
+  onDeleteCachedFeed,
+  feedTimezone,
+  frequencyMode,
+  onFrequencyModeChange,
+  transferOptions,
+  onTransferOptionsChange,
+  routingConstraints,
+  onRoutingConstraintsChange,
+  isochroneMode,
+  onIsochroneModeChange,
+  streetNetwork,
+  streetProgressMessage,
+  onLoadStreetNetwork,
+  onClearStreetNetwork,
 }) => {
+  // Other end of the window: the last departure, or the earliest arrival for arrive-by
+  const departureWindowEnd = formatMinutesToTime(
+    parseTimeToMinutes(departureTime) + (arriveBy ? -departureWindowMinutes : departureWindowMinutes)
+  ).slice(0, 5);
+  
   return (
     <Card className="w-full">
       <CardHeader className="pb-3">
@@ -72,6 +221,242 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       <CardContent className="space-y-4">
         {showSettings ? (
           <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>GTFS Feed</Label>
+              <FeedLoader
+                onLoadFeed={onLoadFeed}
+                feedName={feedName}
+                progressMessage={feedProgressMessage}
+                isLoading={isLoading}
+              />
+              <div className="text-xs text-muted-foreground space-y-1">
+                {feedInfo && (
+                  <p>
+                    Published by{' '}
+                    <a href={feedInfo.feed_publisher_url} target="_blank" rel="noreferrer" className="underline">
+                      {feedInfo.feed_publisher_name}
+                    </a>
+                    {feedInfo.feed_version && ` (version ${feedInfo.feed_version})`}
+                  </p>
+                )}
+                {feedInfo?.feed_start_date && feedInfo?.feed_end_date && (
+                  <p>
+                    Valid {format(parseServiceDate(feedInfo.feed_start_date), 'PP')} – {format(parseServiceDate(feedInfo.feed_end_date), 'PP')}
+                  </p>
+                )}
+                <p>Timezone: {feedTimezone}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Feed Validation</Label>
+              <ValidationReportPanel report={validationReport} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cached Feeds</Label>
+              <CachedFeedsPanel
+                cachedFeeds={cachedFeeds}
+                onLoadCachedFeed={onLoadCachedFeed}
+                onDeleteCachedFeed={onDeleteCachedFeed}
+                isLoading={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Parsed feeds are kept in the browser. The cached feed opens at once and a refresh is offered when the server has a newer one, an unchanged download is not parsed again, and the latest cached feed is used when the download fails
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="lazy-frequencies">Lazy frequency expansion</Label>
+                <Switch
+                  id="lazy-frequencies"
+                  checked={frequencyMode === 'lazy'}
+                  onCheckedChange={(checked) => onFrequencyModeChange(checked ? 'lazy' : 'eager')}
+                  disabled={isLoading}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Generate headway-based trips on demand instead of keeping every instance in memory
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="footpath-radius">Footpath Radius</Label>
+                <span className="text-sm font-medium">{transferOptions.footpathRadiusMeters} m</span>
+              </div>
+              <Slider
+                id="footpath-radius"
+                min={0}
+                max={1000}
+                step={50}
+                value={[transferOptions.footpathRadiusMeters]}
+                onValueChange={(values) => onTransferOptionsChange({
+                  ...transferOptions,
+                  footpathRadiusMeters: values[0]
+                })}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="walking-speed">Walking Speed</Label>
+                <span className="text-sm font-medium">{transferOptions.walkingSpeedKmh} km/h</span>
+              </div>
+              <Slider
+                id="walking-speed"
+                min={2}
+                max={7}
+                step={0.5}
+                value={[transferOptions.walkingSpeedKmh]}
+                onValueChange={(values) => onTransferOptionsChange({
+                  ...transferOptions,
+                  walkingSpeedKmh: values[0]
+                })}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Stops within the radius are connected by walking transfers
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="max-transfers">Maximum Transfers</Label>
+                <span className="text-sm font-medium">{routingConstraints.maxTransfers}</span>
+              </div>
+              <Slider
+                id="max-transfers"
+                min={0}
+                max={5}
+                step={1}
+                value={[routingConstraints.maxTransfers]}
+                onValueChange={(values) => onRoutingConstraintsChange({
+                  ...routingConstraints,
+                  maxTransfers: values[0]
+                })}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="transfer-penalty">Transfer Penalty</Label>
+                <span className="text-sm font-medium">{routingConstraints.transferPenalty} min</span>
+              </div>
+              <Slider
+                id="transfer-penalty"
+                min={0}
+                max={15}
+                step={1}
+                value={[routingConstraints.transferPenalty]}
+                onValueChange={(values) => onRoutingConstraintsChange({
+                  ...routingConstraints,
+                  transferPenalty: values[0]
+                })}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Added to the travel time for every change of vehicle
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="max-walk-minutes">Maximum Total Walk</Label>
+                <span className="text-sm font-medium">
+                  {Number.isFinite(routingConstraints.maxWalkMinutes) ? `${routingConstraints.maxWalkMinutes} min` : 'No limit'}
+                </span>
+              </div>
+              <Slider
+                id="max-walk-minutes"
+                min={0}
+                max={NO_LIMIT_WALK_MINUTES}
+                step={5}
+                value={[Math.min(routingConstraints.maxWalkMinutes, NO_LIMIT_WALK_MINUTES)]}
+                onValueChange={(values) => onRoutingConstraintsChange({
+                  ...routingConstraints,
+                  maxWalkMinutes: values[0] === NO_LIMIT_WALK_MINUTES ? Infinity : values[0]
+                })}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Walking between stops; the walk to the platforms of the chosen station does not count
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="max-walk-meters">Maximum Single Walk</Label>
+                <span className="text-sm font-medium">
+                  {Number.isFinite(routingConstraints.maxWalkMeters) ? `${routingConstraints.maxWalkMeters} m` : 'No limit'}
+                </span>
+              </div>
+              <Slider
+                id="max-walk-meters"
+                min={0}
+                max={NO_LIMIT_WALK_METERS}
+                step={100}
+                value={[Math.min(routingConstraints.maxWalkMeters, NO_LIMIT_WALK_METERS)]}
+                onValueChange={(values) => onRoutingConstraintsChange({
+                  ...routingConstraints,
+                  maxWalkMeters: values[0] === NO_LIMIT_WALK_METERS ? Infinity : values[0]
+                })}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Longest walk between two stops; neither limit applies to the bike profile
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="arranged-stops">Arranged pickup and drop-off</Label>
+                <Switch
+                  id="arranged-stops"
+                  checked={routingConstraints.allowArrangedStops}
+                  onCheckedChange={(checked) => onRoutingConstraintsChange({
+                    ...routingConstraints,
+                    allowArrangedStops: checked
+                  })}
+                  disabled={isLoading}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Use stops where getting on or off must be booked by phone or arranged with the driver
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="simulated-isochrones">Simulated isochrones</Label>
+                <Switch
+                  id="simulated-isochrones"
+                  checked={isochroneMode === 'simulated'}
+                  onCheckedChange={(checked) => onIsochroneModeChange(checked ? 'simulated' : 'network')}
+                  disabled={isLoading}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {isochroneMode === 'simulated'
+                  ? 'Fallback: areas spread from the stop at a fixed speed, ignoring the timetable'
+                  : 'Areas are walked from every stop reached in the time left'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Street Network</Label>
+              <StreetNetworkLoader
+                onLoadStreetNetwork={onLoadStreetNetwork}
+                onClearStreetNetwork={onClearStreetNetwork}
+                streetNetwork={streetNetwork}
+                progressMessage={streetProgressMessage}
+                isLoading={isLoading}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="mapbox-token">Map Settings</Label>
               {mapToken !== undefined && onMapTokenChange !== undefined && (
@@ -93,6 +478,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               <Label>Transit Stops</Label>
               <StopSelector
                 stops={stops}
+                stationIndex={stationIndex}
                 selectedStops={selectedStops}
                 onSelectStop={onSelectStop}
                 onRemoveStop={onRemoveStop}
@@ -114,35 +500,269 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 onValueChange={(values) => onTimeRadiusChange(values[0])}
                 disabled={isLoading}
               />
+              <div className="flex items-center justify-between">
+                <Label htmlFor="arrive-by" className="text-xs text-muted-foreground">
+                  Arrive by (travel times to the stops)
+                </Label>
+                <Switch
+                  id="arrive-by"
+                  checked={arriveBy}
+                  onCheckedChange={onArriveByChange}
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="departure-time">{arriveBy ? 'Arrival' : 'Departure'}</Label>
+              <div className="flex gap-2">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="flex-1 justify-start text-left font-normal"
+                      disabled={isLoading}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {format(travelDate, 'PPP')}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={travelDate}
+                      onSelect={(date) => date && onTravelDateChange(date)}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <Input
+                  id="departure-time"
+                  type="time"
+                  className="w-28"
+                  value={departureTime}
+                  onChange={(e) => e.target.value && onDepartureTimeChange(e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Select
+                  value={String(departureWindowMinutes)}
+                  onValueChange={(value) => onDepartureWindowChange(Number(value))}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPARTURE_WINDOWS.map((window) => (
+                      <SelectItem key={window.minutes} value={String(window.minutes)}>
+                        {window.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {departureWindowMinutes > 0 && (
+                  <Select
+                    value={profileStatistic}
+                    onValueChange={(value) => onProfileStatisticChange(value as ProfileStatistic)}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROFILE_STATISTICS.map((statistic) => (
+                        <SelectItem key={statistic.id} value={statistic.id}>
+                          {statistic.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {departureWindowMinutes > 0
+                  ? `Every minute ${arriveBy ? `from ${departureWindowEnd} to ${departureTime}` : `from ${departureTime} to ${departureWindowEnd}`}, local time at each selected stop`
+                  : 'Local time at each selected stop'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="initial-wait">Initial Wait</Label>
+              <Select
+                value={initialWait}
+                onValueChange={(value) => onInitialWaitChange(value as InitialWaitMode)}
+                disabled={isLoading || departureWindowMinutes > 0}
+              >
+                <SelectTrigger id="initial-wait">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INITIAL_WAIT_MODES.map((mode) => (
+                    <SelectItem key={mode.id} value={mode.id}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {departureWindowMinutes > 0
+                  ? 'Departure windows already include the wait for each departure'
+                  : INITIAL_WAIT_MODES.find((mode) => mode.id === initialWait)?.description}
+              </p>
             </div>
 
             <div className="space-y-2">
               <Label>Transport Modes</Label>
               <div className="grid grid-cols-2 gap-2">
-                {[
-                  { id: 'bus', label: 'Bus' },
-                  { id: 'subway', label: 'Subway' },
-                  { id: 'tram', label: 'Tram' },
-                  { id: 'rail', label: 'Rail' },
-                ].map((mode) => (
+                {(Object.entries(TRANSPORT_MODE_LABELS) as [TransportMode, string][]).map(([mode, label]) => (
                   <div 
-                    key={mode.id} 
+                    key={mode} 
                     className="flex items-center space-x-2 rounded-md border p-2"
                   >
                     <Switch
-                      id={`mode-${mode.id}`}
-                      checked={selectedModes.includes(mode.id as TransportMode)}
-                      onCheckedChange={() => onToggleMode(mode.id as TransportMode)}
+                      id={`mode-${mode}`}
+                      checked={selectedModes.includes(mode)}
+                      onCheckedChange={() => onToggleMode(mode)}
                       disabled={isLoading}
                     />
-                    <Label htmlFor={`mode-${mode.id}`} className="cursor-pointer">
-                      {mode.label}
+                    <Label htmlFor={`mode-${mode}`} className="cursor-pointer">
+                      {label}
                     </Label>
                   </div>
                 ))}
               </div>
             </div>
 
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="compare-wheelchair">Step-Free Comparison</Label>
+                <Switch
+                  id="compare-wheelchair"
+                  checked={compareWheelchair}
+                  onCheckedChange={onCompareWheelchairChange}
+                  disabled={isLoading}
+                />
+              </div>
+              {compareWheelchair && (
+                <>
+                  <Select
+                    value={wheelchairOptions.unknownPolicy}
+                    onValueChange={(value) => onWheelchairOptionsChange({
+                      ...wheelchairOptions,
+                      unknownPolicy: value as UnknownAccessibilityPolicy
+                    })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {UNKNOWN_ACCESSIBILITY_POLICIES.map((policy) => (
+                        <SelectItem key={policy.id} value={policy.id}>
+                          {policy.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="wheelchair-speed" className="text-xs">Wheelchair Speed</Label>
+                    <span className="text-sm font-medium">{wheelchairOptions.walkingSpeedKmh} km/h</span>
+                  </div>
+                  <Slider
+                    id="wheelchair-speed"
+                    min={1}
+                    max={6}
+                    step={0.5}
+                    value={[wheelchairOptions.walkingSpeedKmh]}
+                    onValueChange={(values) => onWheelchairOptionsChange({
+                      ...wheelchairOptions,
+                      walkingSpeedKmh: values[0]
+                    })}
+                    disabled={isLoading}
+                  />
+                </>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {compareWheelchair
+                  ? 'Stops reached using only wheelchair-accessible stops and vehicles are ringed, and the areas reachable from them at wheelchair speed are outlined in purple on their own map layer'
+                  : 'Compare with routing on wheelchair-accessible stops and vehicles only'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="compare-bike">With Bike</Label>
+                <Switch
+                  id="compare-bike"
+                  checked={compareBike}
+                  onCheckedChange={onCompareBikeChange}
+                  disabled={isLoading}
+                />
+              </div>
+              {compareBike && (
+                <>
+                  <Select
+                    value={bikeOptions.unknownPolicy}
+                    onValueChange={(value) => onBikeOptionsChange({
+                      ...bikeOptions,
+                      unknownPolicy: value as UnknownAccessibilityPolicy
+                    })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {UNKNOWN_BIKE_POLICIES.map((policy) => (
+                        <SelectItem key={policy.id} value={policy.id}>
+                          {policy.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="bike-speed" className="text-xs">Cycling Speed</Label>
+                    <span className="text-sm font-medium">{bikeOptions.speedKmh} km/h</span>
+                  </div>
+                  <Slider
+                    id="bike-speed"
+                    min={8}
+                    max={30}
+                    step={1}
+                    value={[bikeOptions.speedKmh]}
+                    onValueChange={(values) => onBikeOptionsChange({
+                      ...bikeOptions,
+                      speedKmh: values[0]
+                    })}
+                    disabled={isLoading}
+                  />
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="bike-radius" className="text-xs">Cycling Distance</Label>
+                    <span className="text-sm font-medium">{bikeOptions.radiusMeters} m</span>
+                  </div>
+                  <Slider
+                    id="bike-radius"
+                    min={500}
+                    max={5000}
+                    step={250}
+                    value={[bikeOptions.radiusMeters]}
+                    onValueChange={(values) => onBikeOptionsChange({
+                      ...bikeOptions,
+                      radiusMeters: values[0]
+                    })}
+                    disabled={isLoading}
+                  />
+                </>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {compareBike
+                  ? 'Stops reached taking a bike on vehicles that allow it and cycling to and from stops are ringed, and the areas cycled to from them are outlined in teal on their own map layer'
+                  : 'Compare with journeys taking a bike, on vehicles that allow bikes only'}
+              </p>
+            </div>
+
             <Button 
               className="w-full" 
               onClick={onCalculateIsochrones}
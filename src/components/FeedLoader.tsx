@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { FileArchive, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+
+interface FeedLoaderProps {
+  onLoadFeed: (file: File) => void;
+  feedName: string;
+  progressMessage: string;
+  isLoading: boolean;
+}
+
+/**
+ * Drop zone and file picker for loading a local GTFS zip file
+ */
+export function FeedLoader({
+  onLoadFeed,
+  feedName,
+  progressMessage,
+  isLoading,
+}: FeedLoaderProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file && !isLoading) {
+      onLoadFeed(file);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={cn(
+          "flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-4 text-center transition-colors",
+          isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25",
+          isLoading && "opacity-50"
+        )}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+      >
+        <FileArchive className="h-6 w-6 text-muted-foreground" />
+        <p className="text-xs text-muted-foreground">
+          Drop an MVV/MVG GTFS zip here
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={isLoading}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Choose file
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Current feed: <span className="font-medium">{feedName}</span>
+      </p>
+      {progressMessage && (
+        <p className="text-xs text-muted-foreground">{progressMessage}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Bus, Footprints, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Route, Stop } from '@/types/gtfs';
+import { formatMinutesToTime } from '@/utils/gtfsUtils/timeUtils';
+import { Journey } from '@/utils/routingUtils/types';
+
+interface JourneyPanelProps {
+  journey: Journey;
+  stopsById: Map<string, Stop>;
+  routesById: Map<string, Route>;
+  onClose: () => void;
+}
+
+/**
+ * Format minutes of the service day as HH:MM
+ */
+const formatClock = (minutes: number): string => formatMinutesToTime(Math.round(minutes)).slice(0, 5);
+
+/**
+ * Leg list of the fastest journey to a point chosen on the map
+ */
+export function JourneyPanel({
+  journey,
+  stopsById,
+  routesById,
+  onClose,
+}: JourneyPanelProps) {
+  const placeName = (stopId: string | null) =>
+    stopId === null ? 'Chosen point' : stopsById.get(stopId)?.stop_name || stopId;
+
+  return (
+    <div className="w-72 rounded-md bg-white/95 p-3 text-xs shadow">
+      <div className="mb-2 flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">
+            {formatClock(journey.departureTime)} – {formatClock(journey.arrivalTime)}
+            {' '}({Math.round(journey.arrivalTime - journey.departureTime)} min)
+          </p>
+          <p className="text-muted-foreground">
+            {journey.transfers === 1 ? '1 transfer' : `${journey.transfers} transfers`}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Close journey</span>
+        </Button>
+      </div>
+      <ol className="space-y-2">
+        {journey.legs.map((leg, index) => {
+          const route = leg.routeId ? routesById.get(leg.routeId) : undefined;
+          const minutes = Math.round(leg.arrivalTime - leg.departureTime);
+
+          return (
+            <li key={index} className="flex gap-2">
+              {leg.mode === 'walk' ? (
+                <Footprints className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              ) : (
+                <Bus className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              )}
+              {leg.mode === 'walk' ? (
+                <p>
+                  Walk {minutes} min to {placeName(leg.toStopId)}
+                </p>
+              ) : (
+                <div>
+                  <p>
+                    {leg.inSeat && 'Stay on board as '}
+                    <Badge variant="secondary" className="mr-1 px-1.5 py-0">
+                      {route?.route_short_name || route?.route_long_name || leg.routeId}
+                    </Badge>
+                    {leg.stopIds.length - 1} stops, {minutes} min
+                  </p>
+                  <p>
+                    {formatClock(leg.departureTime)} {leg.inSeat ? 'continue from' : 'board at'} {placeName(leg.fromStopId)}
+                  </p>
+                  <p>{formatClock(leg.arrivalTime)} alight at {placeName(leg.toStopId)}</p>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 
 import React, { useEffect, useRef } from 'react';
-import { Stop } from '@/types/gtfs';
+import { Stop, TransportMode } from '@/types/gtfs';
+import { TRANSPORT_MODE_LABELS } from '@/utils/gtfsParser';
+import { StationIndex } from '@/utils/gtfsUtils/gtfsTypes';
+import { getPlatformLabel } from '@/utils/gtfsUtils/stationUtils';
 import L from 'leaflet';
 
 // Import Leaflet CSS from a CDN instead of direct import
@@ -22,13 +25,52 @@ L.Marker.prototype.options.icon = DefaultIcon;
 
 interface MapComponentProps {
   selectedStops: Stop[];
+  stationIndex: StationIndex;
   isochroneData: Record<string, GeoJSON.Feature[]>;
+  calculatedModes: TransportMode[];
+  isStale: boolean;
+  routeLines: GeoJSON.Feature[];
+  journeyLines: GeoJSON.Feature[];
+  onMapClick: (lat: number, lng: number) => void;
   isLoading: boolean;
+  loadingMessage?: string;
 }
 
 const MUNICH_CENTER = { lat: 48.137154, lng: 11.576124 };
 const DEFAULT_ZOOM = 12;
 
+// List transport modes by name, in display order
+const formatModes = (modes: TransportMode[] = []): string =>
+  (Object.keys(TRANSPORT_MODE_LABELS) as TransportMode[])
+    .filter(mode => modes.includes(mode))
+    .map(mode => TRANSPORT_MODE_LABELS[mode])
+    .join(', ');
+
+// Describe how an isochrone feature was calculated
+const describeCalculation = (properties: GeoJSON.GeoJsonProperties): string =>
+  `${properties?.arriveBy ? 'arrive by, ' : ''}${formatModes(properties?.modes)}`;
+
+// Popup of a selected stop, listing the platforms of a station
+const describeStop = (stop: Stop, stationIndex: StationIndex): string => {
+  const platforms = stationIndex.platforms.get(stop.stop_id);
+  const platformList = platforms
+    ? `<br>${platforms.map(platform => `${getPlatformLabel(platform)} (${platform.stop_id})`).join('<br>')}`
+    : '';
+  return `<b>${stop.stop_name}</b><br>ID: ${stop.stop_id}${platformList}`;
+};
+
+// Tooltip suffix of stops reached by a restricted routing profile
+const PROFILE_LABELS: Record<string, string> = {
+  wheelchair: ' step-free',
+  bike: ' with bike'
+};
+
+// Toggleable overlays with the isochrones of restricted routing profiles, drawn as outlines
+const PROFILE_OVERLAYS: Record<string, { label: string; color: string }> = {
+  wheelchair: { label: 'Step-free isochrones', color: '#7b2cbf' },
+  bike: { label: 'Bike isochrones', color: '#00897b' }
+};
+
 // Colors for isochrone contours
 const ISOCHRONE_COLORS = [
   '#3388ff', // 15min
@@ -39,13 +81,41 @@ const ISOCHRONE_COLORS = [
 
 const MapComponent: React.FC<MapComponentProps> = ({ 
   selectedStops, 
+  stationIndex,
   isochroneData,
-  isLoading 
+  calculatedModes,
+  isStale,
+  routeLines,
+  journeyLines,
+  onMapClick,
+  isLoading,
+  loadingMessage
 }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
   const isochroneLayersRef = useRef<Record<string, L.GeoJSON>>({});
+  const profileLayersRef = useRef<Record<string, L.LayerGroup>>({});
   const stopMarkersRef = useRef<Record<string, L.Marker>>({});
+  const linesLayerRef = useRef<L.LayerGroup | null>(null);
+  const journeyLayerRef = useRef<L.LayerGroup | null>(null);
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
+  
+  const isArriveBy = Object.values(isochroneData).some(features =>
+    features.some(feature => feature.properties?.arriveBy)
+  );
+  
+  // Stops reached per routing profile, to compare step-free and bike access with the full network
+  const reachedCounts = { standard: 0, wheelchair: 0, bike: 0 };
+  Object.values(isochroneData).forEach(features => features.forEach(feature => {
+    if (feature.properties?.kind === 'reached-stop') reachedCounts[feature.properties.profile as 'standard' | 'wheelchair' | 'bike']++;
+  }));
+  const hasWheelchair = Object.values(isochroneData).some(features =>
+    features.some(feature => feature.properties?.profile === 'wheelchair')
+  );
+  const hasBike = Object.values(isochroneData).some(features =>
+    features.some(feature => feature.properties?.profile === 'bike')
+  );
 
   // Add leaflet CSS dynamically
   useEffect(() => {
@@ -70,6 +140,19 @@ const MapComponent: React.FC<MapComponentProps> = ({
         maxZoom: 19,
       }).addTo(map);
       
+      // Toggleable layers with the lines serving the selected stops and the profile isochrones
+      const linesLayer = L.layerGroup().addTo(map);
+      const overlays: Record<string, L.LayerGroup> = { 'Lines': linesLayer };
+      Object.entries(PROFILE_OVERLAYS).forEach(([profile, { label }]) => {
+        profileLayersRef.current[profile] = overlays[label] = L.layerGroup().addTo(map);
+      });
+      L.control.layers(undefined, overlays).addTo(map);
+      linesLayerRef.current = linesLayer;
+      
+      // Path of the journey to the last clicked point, above everything else
+      journeyLayerRef.current = L.layerGroup().addTo(map);
+      map.on('click', event => onMapClickRef.current(event.latlng.lat, event.latlng.lng));
+      
       mapRef.current = map;
     }
     
@@ -106,7 +189,7 @@ const MapComponent: React.FC<MapComponentProps> = ({
         if (!isNaN(lat) && !isNaN(lng)) {
           const marker = L.marker([lat, lng])
             .addTo(map)
-            .bindPopup(`<b>${stop.stop_name}</b><br>ID: ${stop.stop_id}`);
+            .bindPopup(describeStop(stop, stationIndex));
           
           stopMarkersRef.current[stop.stop_id] = marker;
         }
@@ -120,7 +203,48 @@ const MapComponent: React.FC<MapComponentProps> = ({
       );
       map.fitBounds(bounds.pad(0.3));
     }
-  }, [selectedStops]);
+  }, [selectedStops, stationIndex]);
+
+  // Redraw the route lines
+  useEffect(() => {
+    const linesLayer = linesLayerRef.current;
+    if (!linesLayer) return;
+    
+    linesLayer.clearLayers();
+    if (routeLines.length === 0) return;
+    
+    L.geoJSON(routeLines, {
+      style: (feature) => ({
+        color: feature?.properties?.color || '#666666',
+        weight: 3,
+        opacity: 0.8
+      }),
+      onEachFeature: (feature, layer) => {
+        const { route_short_name, route_long_name } = feature.properties || {};
+        layer.bindPopup(`<b>${route_short_name || ''}</b>${route_long_name ? `<br>${route_long_name}` : ''}`);
+      }
+    }).addTo(linesLayer);
+  }, [routeLines]);
+
+  // Redraw the journey path
+  useEffect(() => {
+    const journeyLayer = journeyLayerRef.current;
+    if (!journeyLayer) return;
+    
+    journeyLayer.clearLayers();
+    if (journeyLines.length === 0) return;
+    
+    const layer = L.geoJSON(journeyLines, {
+      style: (feature) => ({
+        color: feature?.properties?.color || '#444444',
+        weight: feature?.properties?.mode === 'walk' ? 3 : 5,
+        opacity: 0.9,
+        dashArray: feature?.properties?.mode === 'walk' ? '4 6' : undefined
+      }),
+      interactive: false
+    }).addTo(journeyLayer);
+    layer.bringToFront();
+  }, [journeyLines]);
 
   // Add/remove isochrones on the map
   useEffect(() => {
@@ -128,6 +252,7 @@ const MapComponent: React.FC<MapComponentProps> = ({
     
     const map = mapRef.current;
     const currentIsochroneIds = new Set(Object.keys(isochroneData));
+    Object.values(profileLayersRef.current).forEach(layer => layer.clearLayers());
     
     // Remove isochrone layers that are no longer in the data
     Object.keys(isochroneLayersRef.current).forEach(stopId => {
@@ -145,15 +270,36 @@ const MapComponent: React.FC<MapComponentProps> = ({
       }
       
       if (features && features.length > 0) {
-        // Sort features by contour time (ascending)
+        // Draw the largest isochrones first, so smaller ones and the reached stops stay on top
         const sortedFeatures = [...features].sort((a, b) => 
-          (a.properties?.contour || 0) - (b.properties?.contour || 0)
+          (b.properties?.time || 0) - (a.properties?.time || 0)
         );
         
+        // Isochrones of restricted profiles go to their own overlays
+        const isProfileIsochrone = (feature: GeoJSON.Feature) =>
+          feature.geometry.type !== 'Point' && feature.properties?.profile in PROFILE_OVERLAYS;
+        Object.entries(PROFILE_OVERLAYS).forEach(([profile, { color }]) => {
+          const profileIsochrones = sortedFeatures.filter(feature =>
+            isProfileIsochrone(feature) && feature.properties?.profile === profile
+          );
+          if (profileIsochrones.length === 0) return;
+          
+          L.geoJSON(profileIsochrones, {
+            style: {
+              color,
+              weight: 2,
+              opacity: 0.9,
+              fillColor: color,
+              fillOpacity: 0.05
+            },
+            interactive: false
+          }).addTo(profileLayersRef.current[profile]);
+        });
+        
         // Create a new layer
-        const layer = L.geoJSON(sortedFeatures as any, {
+        const layer = L.geoJSON(sortedFeatures.filter(feature => !isProfileIsochrone(feature)) as any, {
           style: (feature) => {
-            const minutes = feature?.properties?.contour || 15;
+            const minutes = feature?.properties?.time || 15;
             const colorIndex = Math.min(
               Math.floor(minutes / 15) - 1, 
               ISOCHRONE_COLORS.length - 1
@@ -168,15 +314,55 @@ const MapComponent: React.FC<MapComponentProps> = ({
               fillOpacity: 0.3
             };
           },
+          pointToLayer: (feature, latlng) => {
+            // Stops also reached step-free are ringed
+            if (feature.properties?.profile === 'wheelchair') {
+              return L.circleMarker(latlng, {
+                radius: 7,
+                color: PROFILE_OVERLAYS.wheelchair.color,
+                weight: 2,
+                fill: false
+              });
+            }
+            
+            // Stops reached with a bike get a wider ring
+            if (feature.properties?.profile === 'bike') {
+              return L.circleMarker(latlng, {
+                radius: 10,
+                color: PROFILE_OVERLAYS.bike.color,
+                weight: 2,
+                fill: false
+              });
+            }
+            
+            // Stops reached by routing are drawn as small dots
+            return L.circleMarker(latlng, {
+              radius: 4,
+              color: '#333',
+              weight: 1,
+              fillColor: feature.properties?.color || ISOCHRONE_COLORS[0],
+              fillOpacity: 0.9
+            });
+          },
           onEachFeature: (feature, layer) => {
-            const minutes = feature.properties?.contour || 15;
-            layer.bindTooltip(`${minutes} minutes`);
+            if (feature.properties?.kind === 'reached-stop') {
+              const minutes = Math.round(feature.properties.travelTime);
+              const profile = PROFILE_LABELS[feature.properties.profile] ?? '';
+              layer.bindTooltip(`${feature.properties.stop_name}: ${minutes} min${profile} (${describeCalculation(feature.properties)})`);
+              return;
+            }
+            
+            const minutes = feature.properties?.time || 15;
+            layer.bindTooltip(`${minutes} minutes (${describeCalculation(feature.properties)})`);
           }
         }).addTo(map);
         
         isochroneLayersRef.current[stopId] = layer;
       }
     });
+    
+    // Profile outlines stay visible above the filled isochrones
+    Object.values(profileLayersRef.current).forEach(layer => layer.eachLayer(child => (child as L.GeoJSON).bringToFront()));
   }, [isochroneData]);
 
   return (
@@ -185,10 +371,38 @@ const MapComponent: React.FC<MapComponentProps> = ({
         <div className="absolute inset-0 bg-white/70 z-10 flex items-center justify-center">
           <div className="flex flex-col items-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
-            <p className="mt-2 text-sm font-medium">Calculating isochrones...</p>
+            <p className="mt-2 text-sm font-medium">{loadingMessage || 'Calculating isochrones...'}</p>
           </div>
         </div>
       )}
+      {Object.keys(isochroneData).length > 0 && (
+        <div className="absolute bottom-6 left-2 z-[1000] max-w-xs rounded-md bg-white/90 px-3 py-2 text-xs shadow">
+          <p>
+            <span className="font-medium">Modes:</span> {formatModes(calculatedModes)}
+          </p>
+          {hasWheelchair && (
+            <p>
+              <span className="font-medium">Step-free:</span> {reachedCounts.wheelchair} of {reachedCounts.standard} stops reached
+              {reachedCounts.standard > 0 && ` (${Math.round(reachedCounts.wheelchair / reachedCounts.standard * 100)}%)`}
+              , areas outlined in <span style={{ color: PROFILE_OVERLAYS.wheelchair.color }}>purple</span>
+            </p>
+          )}
+          {hasBike && (
+            <p>
+              <span className="font-medium">With bike:</span> {reachedCounts.bike} stops reached (vs {reachedCounts.standard} on foot)
+              , areas outlined in <span style={{ color: PROFILE_OVERLAYS.bike.color }}>teal</span>
+            </p>
+          )}
+          {isArriveBy && (
+            <p>Arrive-by isochrones: travel times to the selected stops</p>
+          )}
+          {isStale && (
+            <p className="text-amber-600">
+              Transport modes changed - recalculate to update the isochrones
+            </p>
+          )}
+        </div>
+      )}
       <div ref={mapContainerRef} className="h-full w-full" />
     </div>
   );
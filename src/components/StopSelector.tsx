@@ -18,9 +18,11 @@ import {
 } from '@/components/ui/popover';
 import { Badge } from '@/components/ui/badge';
 import { Stop } from '@/types/gtfs';
+import { StationIndex } from '@/utils/gtfsUtils/gtfsTypes';
 
 interface StopSelectorProps {
   stops: Stop[];
+  stationIndex: StationIndex;
   selectedStops: Stop[];
   onSelectStop: (stop: Stop) => void;
   onRemoveStop: (stopId: string) => void;
@@ -29,6 +31,7 @@ interface StopSelectorProps {
 
 export function StopSelector({
   stops,
+  stationIndex,
   selectedStops,
   onSelectStop,
   onRemoveStop,
@@ -45,16 +48,18 @@ export function StopSelector({
       return;
     }
 
+    // Stations are also found by the IDs of their platforms
     const searchLower = search.toLowerCase();
     const filtered = stops
       .filter(stop => 
         stop.stop_name.toLowerCase().includes(searchLower) ||
-        stop.stop_id.toLowerCase().includes(searchLower)
+        stop.stop_id.toLowerCase().includes(searchLower) ||
+        stationIndex.platforms.get(stop.stop_id)?.some(platform => platform.stop_id.toLowerCase().includes(searchLower))
       )
       .slice(0, 50); // Limit to 50 results for performance
 
     setFilteredStops(filtered);
-  }, [search, stops]);
+  }, [search, stops, stationIndex]);
 
   return (
     <div className="space-y-2">
@@ -90,6 +95,7 @@ export function StopSelector({
               <CommandGroup>
                 {filteredStops.map((stop) => {
                   const isSelected = selectedStops.some(s => s.stop_id === stop.stop_id);
+                  const platformCount = stationIndex.platforms.get(stop.stop_id)?.length;
                   return (
                     <CommandItem
                       key={stop.stop_id}
@@ -113,7 +119,9 @@ export function StopSelector({
                         )}
                       />
                       <span>{stop.stop_name}</span>
-                      <span className="ml-2 text-xs text-muted-foreground">({stop.stop_id})</span>
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {platformCount ? `Station, ${platformCount} platforms` : `(${stop.stop_id})`}
+                      </span>
                     </CommandItem>
                   );
                 })}
@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { Map as MapIcon, Trash2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { StreetNetwork } from '@/utils/streetUtils/types';
+
+interface StreetNetworkLoaderProps {
+  onLoadStreetNetwork: (file: File) => void;
+  onClearStreetNetwork: () => void;
+  streetNetwork: StreetNetwork | null;
+  progressMessage: string;
+  isLoading: boolean;
+}
+
+/**
+ * Drop zone and file picker for loading an OSM extract of the walkable street network
+ */
+export function StreetNetworkLoader({
+  onLoadStreetNetwork,
+  onClearStreetNetwork,
+  streetNetwork,
+  progressMessage,
+  isLoading,
+}: StreetNetworkLoaderProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file && !isLoading) {
+      onLoadStreetNetwork(file);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={cn(
+          "flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-4 text-center transition-colors",
+          isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25",
+          isLoading && "opacity-50"
+        )}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+      >
+        <MapIcon className="h-6 w-6 text-muted-foreground" />
+        <p className="text-xs text-muted-foreground">
+          Drop an OSM extract (GeoJSON or .osm.pbf) here
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={isLoading}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Choose file
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".geojson,.json,.pbf,application/geo+json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {streetNetwork ? (
+            <>
+              Streets: <span className="font-medium">{streetNetwork.source}</span>
+              {' '}({streetNetwork.nodeLats.length.toLocaleString()} nodes)
+            </>
+          ) : (
+            'No streets loaded: walking in straight lines'
+          )}
+        </p>
+        {streetNetwork && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={onClearStreetNetwork}
+            disabled={isLoading}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove street network</span>
+          </Button>
+        )}
+      </div>
+      {progressMessage && (
+        <p className="text-xs text-muted-foreground">{progressMessage}</p>
+      )}
+    </div>
+  );
+}
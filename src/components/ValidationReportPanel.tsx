@@ -0,0 +1,86 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, Download, Info } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ValidationReport, ValidationSeverity } from '@/utils/gtfsUtils/gtfsTypes';
+import { exportValidationReport } from '@/utils/gtfsUtils/feedValidation';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport | null;
+}
+
+const SEVERITY_STYLES: Record<ValidationSeverity, { label: string; icon: React.ElementType; className: string }> = {
+  error: { label: 'Errors', icon: AlertCircle, className: 'text-destructive' },
+  warning: { label: 'Warnings', icon: AlertTriangle, className: 'text-amber-600' },
+  info: { label: 'Info', icon: Info, className: 'text-muted-foreground' },
+};
+
+/**
+ * Summary of the problems found in the loaded feed, with JSON export
+ */
+export function ValidationReportPanel({ report }: ValidationReportPanelProps) {
+  if (!report) {
+    return (
+      <p className="text-xs text-muted-foreground">No feed loaded</p>
+    );
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([exportValidationReport(report)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'gtfs-validation-report.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          {(Object.keys(SEVERITY_STYLES) as ValidationSeverity[]).map((severity) => (
+            <Badge
+              key={severity}
+              variant={severity === 'error' && report.counts.error > 0 ? 'destructive' : 'secondary'}
+            >
+              {report.counts[severity]} {SEVERITY_STYLES[severity].label}
+            </Badge>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="mr-2 h-4 w-4" />
+          JSON
+        </Button>
+      </div>
+
+      {report.issues.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No problems found</p>
+      ) : (
+        <ScrollArea className="h-48 rounded-md border">
+          <ul className="divide-y">
+            {report.issues.map((issue) => {
+              const { icon: Icon, className } = SEVERITY_STYLES[issue.severity];
+              return (
+                <li key={`${issue.code}-${issue.file}-${issue.message}`} className="flex gap-2 p-2 text-xs">
+                  <Icon className={`h-4 w-4 shrink-0 ${className}`} />
+                  <div className="min-w-0">
+                    <p>
+                      <span className="font-medium">{issue.file}</span>: {issue.message} ({issue.count})
+                    </p>
+                    {issue.examples.length > 0 && (
+                      <p className="truncate text-muted-foreground">
+                        {issue.examples.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,31 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { subDays } from 'date-fns';
 import { useToast } from '@/components/ui/use-toast';
-import { loadGTFSData, filterStopsForMunich, getConnectedStops } from '@/utils/gtfsParser';
-import { calculateIsochrone } from '@/utils/isochroneCalculator';
+import { ToastAction } from '@/components/ui/toast';
+import { checkGTFSFeedUpdate, downloadGTFSData, loadCachedGTFSFeed, loadGTFSData, loadGTFSFile, filterStopsForMunich, filterRoutesByMode } from '@/utils/gtfsParser';
+import { BikeOptions, CachedFeedSummary, FrequencyExpansionMode, GTFSData, TransferOptions, ValidationReport, WheelchairOptions } from '@/utils/gtfsUtils/gtfsTypes';
+import { applyFrequencyExpansion } from '@/utils/gtfsUtils/frequencyUtils';
+import { buildTransferModel, DEFAULT_TRANSFER_OPTIONS, reverseTransferModel } from '@/utils/gtfsUtils/transferUtils';
+import { getJourneyLines, getRouteLinesForStops } from '@/utils/gtfsUtils/shapeUtils';
+import { DEFAULT_BIKE_OPTIONS, DEFAULT_WHEELCHAIR_OPTIONS, getAccessibleStopIds, getAccessibleTrips, getBikeTrips } from '@/utils/gtfsUtils/accessibilityUtils';
+import { buildStationIndex, getSelectableStops, getStationAccessStops, getStationStopIds } from '@/utils/gtfsUtils/stationUtils';
+import { deleteCachedFeed, listCachedFeeds } from '@/utils/gtfsUtils/feedCache';
+import { formatServiceDate, resolveActiveServices } from '@/utils/gtfsUtils/calendarUtils';
+import { getFeedTimezone, getStopTimezone, MINUTES_PER_DAY, resolveServiceTime } from '@/utils/gtfsUtils/timeUtils';
+import { buildRaptorNetwork, buildReverseRaptorNetwork } from '@/utils/routingUtils/raptorNetwork';
+import { DEFAULT_ROUTING_CONSTRAINTS, getTravelTimes, runRaptor } from '@/utils/routingUtils/raptor';
+import { getProfileTravelTimes, runProfile } from '@/utils/routingUtils/profile';
+import { findJourneyToPoint, reverseJourney } from '@/utils/routingUtils/journey';
+import { InitialWaitMode, Journey, ProfileStatistic, RaptorNetwork, RoutingConstraints, RoutingQuery } from '@/utils/routingUtils/types';
+import { calculateIsochrone, calculateNetworkIsochrones, createReachedStopFeatures } from '@/utils/isochroneCalculator';
+import { IsochroneMode, ReachedStop } from '@/utils/isochroneUtils/types';
+import { createNodeLocator } from '@/utils/streetUtils/streetGraph';
+import { loadStreetNetwork, MAX_STREET_SNAP_METERS } from '@/utils/streetUtils/streetLoader';
+import { StreetNetwork } from '@/utils/streetUtils/types';
 import MapComponent from '@/components/MapComponent';
 import ControlPanel from '@/components/ControlPanel';
+import { JourneyPanel } from '@/components/JourneyPanel';
 import { Stop, TransportMode } from '@/types/gtfs';
 
 // GTFS Data URL - this will attempt to load but we have a fallback
@@ -20,20 +41,204 @@ const Index: React.FC = () => {
   const [stops, setStops] = useState<Stop[]>([]);
   const [selectedStops, setSelectedStops] = useState<Stop[]>([]);
   const [timeRadiusMinutes, setTimeRadiusMinutes] = useState<number>(30);
+  const [arriveBy, setArriveBy] = useState<boolean>(false);
   const [selectedModes, setSelectedModes] = useState<TransportMode[]>(['subway', 'tram', 'bus']);
+  const [travelDate, setTravelDate] = useState<Date>(() => new Date());
+  const [departureTime, setDepartureTime] = useState<string>('08:00');
+  const [departureWindowMinutes, setDepartureWindowMinutes] = useState<number>(0);
+  const [profileStatistic, setProfileStatistic] = useState<ProfileStatistic>('median');
+  const [initialWait, setInitialWait] = useState<InitialWaitMode>('schedule');
+  const [routingConstraints, setRoutingConstraints] = useState<RoutingConstraints>(DEFAULT_ROUTING_CONSTRAINTS);
+  const [isochroneMode, setIsochroneMode] = useState<IsochroneMode>('network');
+  const [compareWheelchair, setCompareWheelchair] = useState<boolean>(false);
+  const [wheelchairOptions, setWheelchairOptions] = useState<WheelchairOptions>(DEFAULT_WHEELCHAIR_OPTIONS);
+  const [compareBike, setCompareBike] = useState<boolean>(false);
+  const [bikeOptions, setBikeOptions] = useState<BikeOptions>(DEFAULT_BIKE_OPTIONS);
   
   // State for isochrones
   const [isochroneData, setIsochroneData] = useState<Record<string, GeoJSON.Feature[]>>({});
+  const [calculatedModes, setCalculatedModes] = useState<TransportMode[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   
+  // Queries behind the current isochrones, rerun to explain the journey to a clicked point
+  const [journeyQueries, setJourneyQueries] = useState<{
+    network: RaptorNetwork;
+    queries: Record<string, RoutingQuery>;
+    arriveBy: boolean;
+    maxDuration: number;
+  } | null>(null);
+  const [selectedJourney, setSelectedJourney] = useState<{ journey: Journey; point: [number, number] } | null>(null);
+  
   // Reference for the full stops data
   const stopsMapRef = React.useRef<Map<string, Stop>>(new Map());
   
   // State for GTFS data caching
   const [gtfsDataLoaded, setGtfsDataLoaded] = useState<boolean>(false);
-  const stopTimesRef = React.useRef<any[]>([]);
-  const tripsRef = React.useRef<any[]>([]);
-  const routesRef = React.useRef<any[]>([]);
+  const [gtfsData, setGtfsData] = useState<GTFSData | null>(null);
+  const [frequencyMode, setFrequencyMode] = useState<FrequencyExpansionMode>('eager');
+  
+  // Feed data as used by routing, with frequency-based trips prepared
+  const routingData = useMemo(
+    () => gtfsData && applyFrequencyExpansion(gtfsData, frequencyMode),
+    [gtfsData, frequencyMode]
+  );
+  
+  // Route patterns of the timetable for RAPTOR
+  const raptorNetwork = useMemo(
+    () => routingData && buildRaptorNetwork(routingData.timetable, routingData.frequencies),
+    [routingData]
+  );
+  
+  // Platforms grouped under their parent stations
+  const stationIndex = useMemo(() => buildStationIndex(gtfsData?.stops ?? []), [gtfsData]);
+  
+  // Stations and standalone stops offered in the search
+  const selectableStops = useMemo(() => getSelectableStops(stops, stationIndex), [stops, stationIndex]);
+  
+  // Walkable streets from a user-supplied OSM extract, walked by network isochrones
+  const [streetNetwork, setStreetNetwork] = useState<StreetNetwork | null>(null);
+  const [streetProgressMessage, setStreetProgressMessage] = useState<string>('');
+  const isochroneStreets = useMemo(
+    () => streetNetwork && {
+      network: streetNetwork,
+      locateNode: createNodeLocator(streetNetwork, MAX_STREET_SNAP_METERS)
+    },
+    [streetNetwork]
+  );
+  
+  // Transfers and footpaths between stops
+  const [transferOptions, setTransferOptions] = useState<TransferOptions>(DEFAULT_TRANSFER_OPTIONS);
+  const transferModel = useMemo(
+    () => gtfsData && buildTransferModel(gtfsData.stops, gtfsData.transfers, transferOptions, stationIndex),
+    [gtfsData, transferOptions, stationIndex]
+  );
+  
+  // Footpaths at wheelchair speed for the step-free comparison, built when first needed
+  const wheelchairTransferModel = useMemo(
+    () => compareWheelchair && gtfsData
+      ? buildTransferModel(
+          gtfsData.stops,
+          gtfsData.transfers,
+          { ...transferOptions, walkingSpeedKmh: wheelchairOptions.walkingSpeedKmh },
+          stationIndex
+        )
+      : null,
+    [compareWheelchair, gtfsData, transferOptions, wheelchairOptions.walkingSpeedKmh, stationIndex]
+  );
+  
+  // Cycled connections between stops for the bike profile, built when first needed
+  const bikeTransferModel = useMemo(
+    () => compareBike && gtfsData
+      ? buildTransferModel(
+          gtfsData.stops,
+          gtfsData.transfers,
+          { ...transferOptions, footpathRadiusMeters: bikeOptions.radiusMeters, walkingSpeedKmh: bikeOptions.speedKmh },
+          stationIndex
+        )
+      : null,
+    [compareBike, gtfsData, transferOptions, bikeOptions.radiusMeters, bikeOptions.speedKmh, stationIndex]
+  );
+  
+  // Time-reversed patterns and footpaths for arrive-by queries, built when first needed
+  const reverseRaptorNetwork = useMemo(
+    () => arriveBy && routingData ? buildReverseRaptorNetwork(routingData) : null,
+    [arriveBy, routingData]
+  );
+  const reverseTransfers = useMemo(
+    () => arriveBy && transferModel ? reverseTransferModel(transferModel) : null,
+    [arriveBy, transferModel]
+  );
+  const reverseWheelchairTransfers = useMemo(
+    () => arriveBy && wheelchairTransferModel ? reverseTransferModel(wheelchairTransferModel) : null,
+    [arriveBy, wheelchairTransferModel]
+  );
+  const reverseBikeTransfers = useMemo(
+    () => arriveBy && bikeTransferModel ? reverseTransferModel(bikeTransferModel) : null,
+    [arriveBy, bikeTransferModel]
+  );
+  
+  // Timezone all feed times are expressed in
+  const feedTimezone = useMemo(() => getFeedTimezone(gtfsData?.agencies), [gtfsData]);
+  
+  // State for the currently loaded feed
+  const [feedName, setFeedName] = useState<string>('Not loaded');
+  const [feedProgressMessage, setFeedProgressMessage] = useState<string>('');
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+  const [cachedFeeds, setCachedFeeds] = useState<CachedFeedSummary[]>([]);
+  
+  // Refresh the list of feeds stored in the browser
+  const refreshCachedFeeds = useCallback(async () => {
+    try {
+      setCachedFeeds(await listCachedFeeds());
+    } catch (error) {
+      console.warn('Feed cache unavailable:', error);
+      setCachedFeeds([]);
+    }
+  }, []);
+  
+  // Store a loaded feed and reset everything calculated from the previous one
+  const applyGTFSData = useCallback((data: GTFSData): number => {
+    // Filter stops for Munich area
+    const munichStops = filterStopsForMunich(data.stops);
+    
+    // Create a map for quick lookup
+    const stopsMap = new Map<string, Stop>();
+    munichStops.forEach(stop => {
+      stopsMap.set(stop.stop_id, stop);
+    });
+    
+    // Store data in refs for future calculations
+    stopsMapRef.current = stopsMap;
+    setGtfsData(data);
+    
+    setStops(munichStops);
+    setSelectedStops([]);
+    setIsochroneData({});
+    setJourneyQueries(null);
+    setSelectedJourney(null);
+    setFeedName(data.source || 'Unknown feed');
+    setGtfsDataLoaded(true);
+    
+    // Problems found while loading explain broken data instead of giving empty results
+    const report = data.validationReport;
+    setValidationReport(report);
+    if (report.counts.error > 0) {
+      toast({
+        variant: "destructive",
+        title: "Feed Has Errors",
+        description: `Found ${report.counts.error} errors. See the validation report in the settings.`,
+      });
+    }
+    
+    return munichStops.length;
+  }, [toast]);
+  
+  // Handler for replacing the cached feed with the newer one on the server
+  const handleRefreshFeed = useCallback(async () => {
+    setIsLoading(true);
+    setFeedProgressMessage('Downloading the updated feed...');
+    
+    try {
+      const data = await downloadGTFSData(GTFS_URL, setFeedProgressMessage);
+      const stopCount = applyGTFSData(data);
+      
+      toast({
+        title: "Feed Updated",
+        description: `Loaded ${stopCount} stops in the Munich area.`,
+      });
+    } catch (error) {
+      console.error('Error refreshing feed:', error);
+      setFeedProgressMessage(error instanceof Error ? error.message : 'Failed to download feed');
+      toast({
+        variant: "destructive",
+        title: "Error Updating Feed",
+        description: "Could not download the updated feed. The cached one is still in use.",
+      });
+    } finally {
+      setIsLoading(false);
+      refreshCachedFeeds();
+    }
+  }, [applyGTFSData, refreshCachedFeeds, toast]);
   
   // Load GTFS data
   useEffect(() => {
@@ -47,32 +252,19 @@ const Index: React.FC = () => {
           description: "This may take a few moments...",
         });
         
-        const { stops, routes, trips, stopTimes } = await loadGTFSData(
+        const data = await loadGTFSData(
           GTFS_URL,
-          (message) => console.log(message)
+          (message) => {
+            console.log(message);
+            setFeedProgressMessage(message);
+          }
         );
         
-        // Filter stops for Munich area
-        const munichStops = filterStopsForMunich(stops);
-        
-        // Create a map for quick lookup
-        const stopsMap = new Map<string, Stop>();
-        munichStops.forEach(stop => {
-          stopsMap.set(stop.stop_id, stop);
-        });
-        
-        // Store data in refs for future calculations
-        stopsMapRef.current = stopsMap;
-        stopTimesRef.current = stopTimes;
-        tripsRef.current = trips;
-        routesRef.current = routes;
-        
-        setStops(munichStops);
-        setGtfsDataLoaded(true);
+        const stopCount = applyGTFSData(data);
         
         toast({
           title: "Data Loaded Successfully",
-          description: `Loaded ${munichStops.length} stops in the Munich area.`,
+          description: `Loaded ${stopCount} stops in the Munich area.`,
         });
       } catch (error) {
         console.error('Error loading data:', error);
@@ -83,12 +275,129 @@ const Index: React.FC = () => {
         });
       } finally {
         setIsLoading(false);
+        refreshCachedFeeds();
+      }
+      
+      // A cached feed is shown right away; ask the server afterwards whether it changed
+      if (await checkGTFSFeedUpdate(GTFS_URL)) {
+        toast({
+          title: "Feed Update Available",
+          description: "The cached feed is outdated. Download the new one?",
+          action: (
+            <ToastAction altText="Download the updated feed" onClick={handleRefreshFeed}>
+              Refresh
+            </ToastAction>
+          ),
+        });
       }
     };
     
     loadData();
+  }, [applyGTFSData, handleRefreshFeed, refreshCachedFeeds, toast]);
+  
+  // Handler for loading a user-supplied GTFS zip file
+  const handleLoadFeed = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setFeedProgressMessage(`Loading ${file.name}...`);
+    
+    try {
+      const data = await loadGTFSFile(file, setFeedProgressMessage);
+      const stopCount = applyGTFSData(data);
+      
+      toast({
+        title: "Feed Loaded",
+        description: `Loaded ${stopCount} stops from ${file.name}.`,
+      });
+    } catch (error) {
+      console.error('Error loading feed file:', error);
+      setFeedProgressMessage(error instanceof Error ? error.message : 'Failed to load feed');
+      toast({
+        variant: "destructive",
+        title: "Error Loading Feed",
+        description: `Could not read ${file.name} as a GTFS feed.`,
+      });
+    } finally {
+      setIsLoading(false);
+      refreshCachedFeeds();
+    }
+  }, [applyGTFSData, refreshCachedFeeds, toast]);
+  
+  // Handler for loading a user-supplied street network extract
+  const handleLoadStreetNetwork = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setStreetProgressMessage(`Loading ${file.name}...`);
+    
+    try {
+      const network = await loadStreetNetwork(file, setStreetProgressMessage);
+      setStreetNetwork(network);
+      setStreetProgressMessage('');
+      
+      toast({
+        title: "Street Network Loaded",
+        description: `Loaded ${network.nodeLats.length} street nodes from ${file.name}.`,
+      });
+    } catch (error) {
+      console.error('Error loading street network:', error);
+      setStreetProgressMessage(error instanceof Error ? error.message : 'Failed to load street network');
+      toast({
+        variant: "destructive",
+        title: "Error Loading Streets",
+        description: `Could not read ${file.name} as an OSM extract.`,
+      });
+    } finally {
+      setIsLoading(false);
+    }
   }, [toast]);
   
+  // Handler for switching to a feed from the cache
+  const handleLoadCachedFeed = useCallback(async (fingerprint: string) => {
+    setIsLoading(true);
+    
+    try {
+      const data = await loadCachedGTFSFeed(fingerprint);
+      const stopCount = applyGTFSData(data);
+      setFeedProgressMessage('');
+      
+      toast({
+        title: "Feed Loaded",
+        description: `Loaded ${stopCount} stops from ${data.source || 'the cached feed'}.`,
+      });
+    } catch (error) {
+      console.error('Error loading cached feed:', error);
+      toast({
+        variant: "destructive",
+        title: "Error Loading Feed",
+        description: "The cached feed could not be loaded.",
+      });
+    } finally {
+      setIsLoading(false);
+      refreshCachedFeeds();
+    }
+  }, [applyGTFSData, refreshCachedFeeds, toast]);
+  
+  // Handler for removing a feed from the cache
+  const handleDeleteCachedFeed = useCallback(async (fingerprint: string) => {
+    try {
+      await deleteCachedFeed(fingerprint);
+    } catch (error) {
+      console.error('Error deleting cached feed:', error);
+      toast({
+        variant: "destructive",
+        title: "Error Deleting Feed",
+        description: "The cached feed could not be deleted.",
+      });
+    }
+    refreshCachedFeeds();
+  }, [refreshCachedFeeds, toast]);
+  
+  // Lines serving the selected stops
+  const routeLines = useMemo(
+    () => gtfsData
+      ? getRouteLinesForStops(selectedStops.flatMap(stop => getStationStopIds(stationIndex, stop.stop_id)), gtfsData)
+      : [],
+    [gtfsData, selectedStops, stationIndex]
+  );
+  
   // Handler for selecting a stop
   const handleSelectStop = useCallback((stop: Stop) => {
     setSelectedStops(prev => [...prev, stop]);
@@ -102,8 +411,24 @@ const Index: React.FC = () => {
       delete newData[stopId];
       return newData;
     });
+    setJourneyQueries(prev => {
+      if (!prev) return prev;
+      const queries = { ...prev.queries };
+      delete queries[stopId];
+      return { ...prev, queries };
+    });
+    setSelectedJourney(null);
   }, []);
   
+  // Isochrones were calculated with other modes than the ones now selected
+  const isochronesStale = useMemo(
+    () => Object.keys(isochroneData).length > 0 && (
+      calculatedModes.length !== selectedModes.length ||
+      calculatedModes.some(mode => !selectedModes.includes(mode))
+    ),
+    [isochroneData, calculatedModes, selectedModes]
+  );
+  
   // Handler for toggling transport modes
   const handleToggleMode = useCallback((mode: TransportMode) => {
     setSelectedModes(prev => 
@@ -117,10 +442,66 @@ const Index: React.FC = () => {
   const calculateIsochrones = useCallback(async () => {
     if (selectedStops.length === 0 || selectedModes.length === 0) return;
     
+    // Arrive-by queries route backwards in time from the selected stops
+    const network = arriveBy ? reverseRaptorNetwork : raptorNetwork;
+    if (!routingData || !network) return;
+    
     setIsLoading(true);
+    setSelectedJourney(null);
     const newIsochroneData: Record<string, GeoJSON.Feature[]> = {};
+    const queries: Record<string, RoutingQuery> = {};
     
     try {
+      // Only trips running on the travel date take part in routing
+      const activeServiceIds = resolveActiveServices(routingData, travelDate);
+      
+      // Trips of the day before running past midnight (times from 24:00:00), such as night lines
+      const previousDay = {
+        serviceIds: resolveActiveServices(routingData, subDays(travelDate, 1)),
+        offset: arriveBy ? MINUTES_PER_DAY : -MINUTES_PER_DAY
+      };
+      const serviceDate = formatServiceDate(travelDate);
+      const allStopsById = new Map(routingData.stops.map(s => [s.stop_id, s]));
+      
+      // Only routes of the selected modes take part in routing
+      const allowedRouteIds = new Set(
+        filterRoutesByMode(routingData.routes, selectedModes).map(route => route.route_id)
+      );
+      
+      // Accessible stops and vehicles for the step-free comparison
+      const wheelchair = compareWheelchair
+        ? {
+            stopIds: getAccessibleStopIds(routingData.stops, wheelchairOptions.unknownPolicy),
+            trips: getAccessibleTrips(network.timetable, routingData.trips, wheelchairOptions.unknownPolicy)
+          }
+        : null;
+      
+      // Vehicles taking bikes for the bike profile; bikes are taken on and off at any stop
+      const bike = compareBike
+        ? { stopIds: null, trips: getBikeTrips(network.timetable, routingData.trips, bikeOptions.unknownPolicy) }
+        : null;
+      
+      // Stops reached by a query, other than where it starts
+      const findReachedStops = (query: RoutingQuery): ReachedStop[] => {
+        // Travel times from a single departure, or summarized over every minute of the window
+        const travelTimes = departureWindowMinutes > 0
+          ? getProfileTravelTimes(
+              network.timetable,
+              runProfile(network, query, departureWindowMinutes),
+              profileStatistic,
+              timeRadiusMinutes
+            )
+          : getTravelTimes(network.timetable, runRaptor(network, query), initialWait, timeRadiusMinutes);
+        
+        const originIds = new Set(query.origins.map(origin => origin.stopId));
+        return Array.from(travelTimes)
+          .filter(([stopId]) => !originIds.has(stopId) && stopsMapRef.current.has(stopId))
+          .map(([stopId, travelTime]) => ({
+            stop: stopsMapRef.current.get(stopId)!,
+            travelTime
+          }));
+      };
+      
       // For each selected stop
       for (const stop of selectedStops) {
         toast({
@@ -128,16 +509,102 @@ const Index: React.FC = () => {
           description: `Processing isochrones for ${stop.stop_name}...`,
         });
         
-        // Calculate isochrones with the correct parameters
-        const isochrones = await calculateIsochrone(
-          stop,
-          [15, 30, 45, 60].filter(time => time <= timeRadiusMinutes)
+        // Departure (or arrival) time entered in the stop's local time, relative to the service day
+        const queryTime = resolveServiceTime(
+          serviceDate,
+          departureTime,
+          getStopTimezone(stop, allStopsById, feedTimezone),
+          feedTimezone
         );
         
-        newIsochroneData[stop.stop_id] = isochrones;
+        // Without the scheduled wait, trips leaving up to a time radius after the chosen time count too
+        const countsScheduledWait = departureWindowMinutes > 0 || initialWait === 'schedule';
+        
+        // The reversed timetable runs on negated times; stations are left (or reached) from all of their platforms
+        const query: RoutingQuery = {
+          origins: getStationAccessStops(stationIndex, stop, transferOptions.walkingSpeedKmh),
+          departureTime: arriveBy ? -queryTime : queryTime,
+          ...routingConstraints,
+          maxDuration: countsScheduledWait ? timeRadiusMinutes : 2 * timeRadiusMinutes,
+          activeServiceIds,
+          previousDay,
+          allowedRouteIds,
+          restrictions: null,
+          transferModel: arriveBy ? reverseTransfers : transferModel
+        };
+        queries[stop.stop_id] = query;
+        const reachedStops = findReachedStops(query);
+        
+        // Areas walkable from the reached stops in the time left, or simulated without the timetable
+        const thresholds = [15, 30, 45, 60].filter(time => time <= timeRadiusMinutes);
+        const isochrones = isochroneMode === 'network'
+          ? calculateNetworkIsochrones(stop, reachedStops, thresholds, {
+              walkingSpeedKmh: transferOptions.walkingSpeedKmh,
+              maxWalkMeters: routingConstraints.maxWalkMeters,
+              streets: isochroneStreets
+            })
+          : await calculateIsochrone(stop, thresholds);
+        
+        // The same query restricted to accessible stops and vehicles, walking at wheelchair speed
+        // from the stops it reaches, along the streets if loaded
+        const wheelchairReachedStops = wheelchair
+          ? findReachedStops({
+              ...query,
+              origins: getStationAccessStops(stationIndex, stop, wheelchairOptions.walkingSpeedKmh),
+              restrictions: wheelchair,
+              transferModel: arriveBy ? reverseWheelchairTransfers : wheelchairTransferModel
+            })
+          : [];
+        const wheelchairFeatures = wheelchair
+          ? [
+              ...calculateNetworkIsochrones(stop, wheelchairReachedStops, thresholds, {
+                walkingSpeedKmh: wheelchairOptions.walkingSpeedKmh,
+                maxWalkMeters: routingConstraints.maxWalkMeters,
+                streets: isochroneStreets
+              }),
+              ...createReachedStopFeatures(wheelchairReachedStops)
+            ].map(feature => ({ ...feature, properties: { ...feature.properties, profile: 'wheelchair' } }))
+          : [];
+        
+        // The same query on vehicles taking bikes, cycling to, from and between stops,
+        // and on from the stops it reaches in straight lines up to the bike's distance
+        const bikeReachedStops = bike
+          ? findReachedStops({
+              ...query,
+              origins: getStationAccessStops(stationIndex, stop, bikeOptions.speedKmh),
+              // Cycling is limited by the bike's own distance rather than the walking limits
+              maxWalkMinutes: Infinity,
+              maxWalkMeters: Infinity,
+              restrictions: bike,
+              transferModel: arriveBy ? reverseBikeTransfers : bikeTransferModel
+            })
+          : [];
+        const bikeFeatures = bike
+          ? [
+              ...calculateNetworkIsochrones(stop, bikeReachedStops, thresholds, {
+                walkingSpeedKmh: bikeOptions.speedKmh,
+                maxWalkMeters: bikeOptions.radiusMeters,
+                streets: null
+              }),
+              ...createReachedStopFeatures(bikeReachedStops)
+            ].map(feature => ({ ...feature, properties: { ...feature.properties, profile: 'bike' } }))
+          : [];
+        
+        // Record the modes, direction and profile each feature was calculated with
+        newIsochroneData[stop.stop_id] = [
+          ...isochrones,
+          ...createReachedStopFeatures(reachedStops),
+          ...wheelchairFeatures,
+          ...bikeFeatures
+        ].map(feature => ({
+          ...feature,
+          properties: { profile: 'standard', ...feature.properties, modes: selectedModes, arriveBy }
+        }));
       }
       
       setIsochroneData(newIsochroneData);
+      setCalculatedModes(selectedModes);
+      setJourneyQueries({ network, queries, arriveBy, maxDuration: timeRadiusMinutes });
       
       toast({
         title: "Calculation Complete",
@@ -153,7 +620,53 @@ const Index: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedStops, selectedModes, timeRadiusMinutes, toast]);
+  }, [selectedStops, selectedModes, timeRadiusMinutes, travelDate, departureTime, departureWindowMinutes, profileStatistic, initialWait, routingConstraints, isochroneMode, isochroneStreets, arriveBy, feedTimezone, routingData, raptorNetwork, reverseRaptorNetwork, transferModel, reverseTransfers, stationIndex, transferOptions, compareWheelchair, wheelchairOptions, wheelchairTransferModel, reverseWheelchairTransfers, compareBike, bikeOptions, bikeTransferModel, reverseBikeTransfers, toast]);
+  
+  // Explain the fastest journey between the origins and a clicked point
+  const handleMapClick = useCallback((lat: number, lng: number) => {
+    if (!journeyQueries || isLoading) return;
+    
+    const { network, queries, arriveBy: reversed, maxDuration } = journeyQueries;
+    const candidateStops = Array.from(stopsMapRef.current.values());
+    const journeys = Object.values(queries)
+      .map(query => findJourneyToPoint(
+        network,
+        runRaptor(network, query),
+        candidateStops,
+        lat,
+        lng,
+        transferOptions.walkingSpeedKmh,
+        maxDuration
+      ))
+      .filter(journey => journey !== null);
+    
+    if (journeys.length === 0) {
+      setSelectedJourney(null);
+      toast({
+        title: "No Journey Found",
+        description: `This point cannot be reached within ${maxDuration} minutes.`,
+      });
+      return;
+    }
+    
+    // Journeys found on the reversed timetable are turned back into travel order
+    const fastest = journeys.reduce((best, journey) =>
+      journey.arrivalTime - journey.departureTime < best.arrivalTime - best.departureTime ? journey : best
+    );
+    setSelectedJourney({ journey: reversed ? reverseJourney(fastest) : fastest, point: [lng, lat] });
+  }, [journeyQueries, isLoading, transferOptions, toast]);
+  
+  // Path of the selected journey on the map
+  const journeyLines = useMemo(
+    () => selectedJourney && routingData
+      ? getJourneyLines(selectedJourney.journey, routingData, selectedJourney.point)
+      : [],
+    [selectedJourney, routingData]
+  );
+  
+  // Lookups for the leg list
+  const stopsById = useMemo(() => new Map((routingData?.stops ?? []).map(stop => [stop.stop_id, stop])), [routingData]);
+  const routesById = useMemo(() => new Map((routingData?.routes ?? []).map(route => [route.route_id, route])), [routingData]);
   
   // Handle settings toggle
   const handleToggleSettings = useCallback(() => {
@@ -167,28 +680,87 @@ const Index: React.FC = () => {
           {/* Control Panel - Takes up 1 column on medium screens */}
           <div className="md:col-span-1">
             <ControlPanel
-              stops={stops}
+              stops={selectableStops}
+              stationIndex={stationIndex}
               selectedStops={selectedStops}
               onSelectStop={handleSelectStop}
               onRemoveStop={handleRemoveStop}
               timeRadiusMinutes={timeRadiusMinutes}
               onTimeRadiusChange={setTimeRadiusMinutes}
+              arriveBy={arriveBy}
+              onArriveByChange={setArriveBy}
+              travelDate={travelDate}
+              onTravelDateChange={setTravelDate}
+              departureTime={departureTime}
+              onDepartureTimeChange={setDepartureTime}
+              departureWindowMinutes={departureWindowMinutes}
+              onDepartureWindowChange={setDepartureWindowMinutes}
+              profileStatistic={profileStatistic}
+              onProfileStatisticChange={setProfileStatistic}
+              initialWait={initialWait}
+              onInitialWaitChange={setInitialWait}
+              compareWheelchair={compareWheelchair}
+              onCompareWheelchairChange={setCompareWheelchair}
+              wheelchairOptions={wheelchairOptions}
+              onWheelchairOptionsChange={setWheelchairOptions}
+              compareBike={compareBike}
+              onCompareBikeChange={setCompareBike}
+              bikeOptions={bikeOptions}
+              onBikeOptionsChange={setBikeOptions}
               selectedModes={selectedModes}
               onToggleMode={handleToggleMode}
               onCalculateIsochrones={calculateIsochrones}
               isLoading={isLoading}
               showSettings={showSettings}
               onToggleSettings={handleToggleSettings}
+              onLoadFeed={handleLoadFeed}
+              feedName={feedName}
+              feedProgressMessage={feedProgressMessage}
+              feedInfo={gtfsData?.feedInfo}
+              validationReport={validationReport}
+              cachedFeeds={cachedFeeds}
+              onLoadCachedFeed={handleLoadCachedFeed}
+              onDeleteCachedFeed={handleDeleteCachedFeed}
+              feedTimezone={feedTimezone}
+              frequencyMode={frequencyMode}
+              onFrequencyModeChange={setFrequencyMode}
+              transferOptions={transferOptions}
+              onTransferOptionsChange={setTransferOptions}
+              routingConstraints={routingConstraints}
+              onRoutingConstraintsChange={setRoutingConstraints}
+              isochroneMode={isochroneMode}
+              onIsochroneModeChange={setIsochroneMode}
+              streetNetwork={streetNetwork}
+              streetProgressMessage={streetProgressMessage}
+              onLoadStreetNetwork={handleLoadStreetNetwork}
+              onClearStreetNetwork={() => setStreetNetwork(null)}
             />
           </div>
           
           {/* Map - Takes up 3 columns on medium screens */}
-          <div className="md:col-span-3 h-[calc(100vh-6rem)]">
+          <div className="relative md:col-span-3 h-[calc(100vh-6rem)]">
             <MapComponent
               selectedStops={selectedStops}
+              stationIndex={stationIndex}
               isochroneData={isochroneData}
+              calculatedModes={calculatedModes}
+              isStale={isochronesStale}
+              routeLines={routeLines}
+              journeyLines={journeyLines}
+              onMapClick={handleMapClick}
               isLoading={isLoading}
+              loadingMessage={gtfsDataLoaded ? undefined : feedProgressMessage}
             />
+            {selectedJourney && (
+              <div className="absolute right-2 top-14 z-[1000] max-h-[70%] overflow-y-auto">
+                <JourneyPanel
+                  journey={selectedJourney.journey}
+                  stopsById={stopsById}
+                  routesById={routesById}
+                  onClose={() => setSelectedJourney(null)}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
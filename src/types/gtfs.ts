@@ -1,6 +1,27 @@
 
 // Types for GTFS data structures
 
+// Agency operating services in the GTFS feed
+export interface Agency {
+  agency_id?: string;
+  agency_name: string;
+  agency_url: string;
+  agency_timezone: string;
+  agency_lang?: string;
+  agency_phone?: string;
+}
+
+// Dataset metadata (feed_info.txt)
+export interface FeedInfo {
+  feed_publisher_name: string;
+  feed_publisher_url: string;
+  feed_lang: string;
+  feed_start_date?: string; // YYYYMMDD
+  feed_end_date?: string; // YYYYMMDD
+  feed_version?: string;
+  feed_contact_email?: string;
+}
+
 // Stop in the GTFS feed
 export interface Stop {
   stop_id: string;
@@ -53,6 +74,57 @@ export interface StopTime {
   timepoint?: string;
 }
 
+// Weekly service pattern in the GTFS feed (calendar.txt)
+export interface Calendar {
+  service_id: string;
+  monday: string;
+  tuesday: string;
+  wednesday: string;
+  thursday: string;
+  friday: string;
+  saturday: string;
+  sunday: string;
+  start_date: string; // YYYYMMDD
+  end_date: string; // YYYYMMDD
+}
+
+// Exception to a weekly service pattern (calendar_dates.txt)
+export interface CalendarDate {
+  service_id: string;
+  date: string; // YYYYMMDD
+  exception_type: string; // 1 = service added, 2 = service removed
+}
+
+// Headway-based service for a trip (frequencies.txt)
+export interface Frequency {
+  trip_id: string;
+  start_time: string;
+  end_time: string;
+  headway_secs: string;
+  exact_times?: string; // 0 = frequency-based, 1 = schedule-based
+}
+
+// Transfer rule between two stops (transfers.txt)
+export interface Transfer {
+  from_stop_id: string;
+  to_stop_id: string;
+  transfer_type: string; // 0 = recommended, 1 = timed, 2 = minimum time, 3 = not possible
+  min_transfer_time?: string; // in seconds
+  from_route_id?: string;
+  to_route_id?: string;
+  from_trip_id?: string;
+  to_trip_id?: string;
+}
+
+// Point of a vehicle path (shapes.txt)
+export interface ShapePoint {
+  shape_id: string;
+  shape_pt_lat: string;
+  shape_pt_lon: string;
+  shape_pt_sequence: string;
+  shape_dist_traveled?: string;
+}
+
 // Supported transport modes
 export type TransportMode = 'bus' | 'subway' | 'tram' | 'rail';
 
@@ -5,36 +5,170 @@
  * This module provides functions for loading and processing GTFS (General Transit Feed Specification) data,
  * including stops, routes, trips, and schedules.
  */
-import Papa from 'papaparse';
-import { Stop, Route, Trip, StopTime, TransportMode } from '@/types/gtfs';
-import { GeoBounds, ProgressCallback } from './gtfsUtils/gtfsTypes';
-import { parseTimeToMinutes } from './gtfsUtils/timeUtils';
+import { Stop, Route, TransportMode } from '@/types/gtfs';
+import { CachedFeedSummary, GeoBounds, GTFSData, GTFSWorkerRequest, GTFSWorkerResponse, ProgressCallback } from './gtfsUtils/gtfsTypes';
+import { isWithinBounds, MUNICH_BOUNDS } from './gtfsUtils/geoUtils';
 import { getMockGTFSData } from './gtfsUtils/mockData';
+import { findCachedFeed, listCachedFeeds, loadCachedFeed } from './gtfsUtils/feedCache';
 
 /**
- * Helper function to safely parse CSV data
+ * Run the GTFS ingest worker for a request
  * 
- * @param csvData - CSV data as a string
- * @returns Promise resolving to parsed data
+ * @param request - Request to send to the worker
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Promise resolving to the parsed GTFS data
  */
-const parseCSV = async <T>(csvData: string): Promise<T[]> => {
+const runGTFSWorker = (
+  request: GTFSWorkerRequest,
+  progressCallback?: ProgressCallback
+): Promise<GTFSData> => {
   return new Promise((resolve, reject) => {
-    Papa.parse(csvData, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        resolve(results.data as T[]);
-      },
-      error: (error) => {
-        reject(error);
+    const worker = new Worker(
+      new URL('./gtfsUtils/gtfsWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    
+    worker.onmessage = (event: MessageEvent<GTFSWorkerResponse>) => {
+      const message = event.data;
+      
+      if (message.type === 'progress') {
+        progressCallback?.(message.message);
+        return;
+      }
+      
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.data);
+      } else {
+        reject(new Error(message.message));
       }
-    });
+    };
+    
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'GTFS worker failed'));
+    };
+    
+    worker.postMessage(request);
   });
 };
 
+/**
+ * How long to wait for the server when checking a cached feed for updates
+ */
+const FEED_CHECK_TIMEOUT_MS = 3000;
+
+/**
+ * Check whether the feed behind a URL is still the one that was cached
+ * 
+ * Compares the ETag and Last-Modified headers of a HEAD request with the ones
+ * stored for the cached feed. When the server cannot be reached or sends neither
+ * header, the cached feed counts as current rather than offering a refresh on
+ * every start.
+ * 
+ * @param summary - Cached feed to check
+ * @param url - URL of the GTFS zip file
+ * @returns True if the cached feed is still current
+ */
+const isCachedFeedCurrent = async (
+  summary: CachedFeedSummary,
+  url: string
+): Promise<boolean> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FEED_CHECK_TIMEOUT_MS);
+  
+  try {
+    const response = await fetch(url, { method: 'HEAD', signal: controller.signal });
+    if (!response.ok) return true;
+    
+    const etag = response.headers.get('ETag') || undefined;
+    const lastModified = response.headers.get('Last-Modified') || undefined;
+    if (!etag && !lastModified) return true;
+    
+    return etag === summary.etag && lastModified === summary.lastModified;
+  } catch {
+    return true;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Check in the background whether the feed behind a URL changed since it was cached
+ * 
+ * @param url - URL of the GTFS zip file
+ * @returns True if the server offers a different feed than the cached one
+ */
+export const checkGTFSFeedUpdate = async (url: string): Promise<boolean> => {
+  try {
+    const summary = await findCachedFeed(url);
+    return summary !== null && !(await isCachedFeedCurrent(summary, url));
+  } catch (error) {
+    console.warn('Feed cache unavailable:', error);
+    return false;
+  }
+};
+
+/**
+ * Load the cached copy of the feed behind a URL, without checking for updates
+ * 
+ * @param url - URL of the GTFS zip file
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Cached data, or null if the feed has to be downloaded
+ */
+const loadCachedFeedForUrl = async (
+  url: string,
+  progressCallback?: ProgressCallback
+): Promise<GTFSData | null> => {
+  try {
+    const summary = await findCachedFeed(url);
+    if (!summary) return null;
+    
+    const data = await loadCachedFeed(summary.fingerprint);
+    if (data) {
+      progressCallback?.(`Using cached feed from ${new Date(summary.savedAt).toLocaleString()}`);
+    }
+    return data;
+  } catch (error) {
+    console.warn('Feed cache unavailable:', error);
+    return null;
+  }
+};
+
+/**
+ * Load the most recently saved feed of any source from the cache
+ * 
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Cached data, or null if no feed is cached
+ */
+const loadLatestCachedFeed = async (
+  progressCallback?: ProgressCallback
+): Promise<GTFSData | null> => {
+  try {
+    const [summary] = await listCachedFeeds();
+    if (!summary) return null;
+    
+    const data = await loadCachedFeed(summary.fingerprint);
+    if (data) {
+      progressCallback?.(`Using cached feed ${summary.source} from ${new Date(summary.savedAt).toLocaleString()}`);
+    }
+    return data;
+  } catch (error) {
+    console.warn('Feed cache unavailable:', error);
+    return null;
+  }
+};
+
 /**
  * Load GTFS data from a zip file
  * 
+ * A cached copy of the feed is used straight away, without asking the server;
+ * `checkGTFSFeedUpdate` tells afterwards whether it is outdated. Otherwise the
+ * feed is downloaded and stream-parsed in a Web Worker, keeping only the
+ * stops, trips and stop times inside the Munich area. When the download fails
+ * (e.g. blocked by CORS), the most recently cached feed is used, such as a zip
+ * loaded from disk before, and precalculated data only when nothing is cached.
+ * 
  * @param gtfsUrl - URL to the GTFS zip file
  * @param progressCallback - Optional callback for progress reporting
  * @returns Object containing stops, routes, trips, and stop times
@@ -42,52 +176,21 @@ const parseCSV = async <T>(csvData: string): Promise<T[]> => {
 export const loadGTFSData = async (
   gtfsUrl: string, 
   progressCallback?: ProgressCallback
-): Promise<{
-  stops: Stop[];
-  routes: Route[];
-  trips: Trip[];
-  stopTimes: StopTime[];
-}> => {
+): Promise<GTFSData> => {
   try {
-    progressCallback?.('Downloading GTFS data...');
+    const cachedData = await loadCachedFeedForUrl(gtfsUrl, progressCallback);
+    if (cachedData) return cachedData;
     
     // Try to fetch the data - this may fail due to CORS
     try {
-      const response = await fetch(gtfsUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to download GTFS data: ${response.status} ${response.statusText}`);
-      }
-      
-      const arrayBuffer = await response.arrayBuffer();
-      const jszip = await import('jszip');
-      
-      progressCallback?.('Extracting GTFS data...');
-      const zip = await new jszip.default().loadAsync(arrayBuffer);
-      
-      // Extract and parse stops.txt
-      progressCallback?.('Parsing stops data...');
-      const stopsText = await zip.file('stops.txt')?.async('string') || '';
-      const stops = await parseCSV<Stop>(stopsText);
-      
-      // Extract and parse routes.txt
-      progressCallback?.('Parsing routes data...');
-      const routesText = await zip.file('routes.txt')?.async('string') || '';
-      const routes = await parseCSV<Route>(routesText);
-      
-      // Extract and parse trips.txt
-      progressCallback?.('Parsing trips data...');
-      const tripsText = await zip.file('trips.txt')?.async('string') || '';
-      const trips = await parseCSV<Trip>(tripsText);
+      return await downloadGTFSData(gtfsUrl, progressCallback);
+    } catch (fetchError) {
+      console.warn('Failed to fetch GTFS data directly:', fetchError);
       
-      // Extract and parse stop_times.txt
-      progressCallback?.('Parsing stop times data...');
-      const stopTimesText = await zip.file('stop_times.txt')?.async('string') || '';
-      const stopTimes = await parseCSV<StopTime>(stopTimesText);
+      const latestData = await loadLatestCachedFeed(progressCallback);
+      if (latestData) return latestData;
       
-      return { stops, routes, trips, stopTimes };
-    } catch (fetchError) {
-      console.warn('Failed to fetch GTFS data directly, using precalculated data:', fetchError);
-      progressCallback?.('Using precalculated GTFS data...');
+      progressCallback?.('Could not download the GTFS feed, using precalculated data. Load a GTFS zip in the settings to use real data.');
       
       // Return mock data with Munich-specific information
       return getMockGTFSData();
@@ -99,13 +202,56 @@ export const loadGTFSData = async (
 };
 
 /**
- * Munich geographic bounding box for filtering stops
+ * Download and parse the feed behind a URL, e.g. after `checkGTFSFeedUpdate` found a newer one
+ * 
+ * An unchanged feed is taken from the cache instead of being parsed again.
+ * Failures are reported to the caller.
+ * 
+ * @param gtfsUrl - URL to the GTFS zip file
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Parsed GTFS data
  */
-const MUNICH_BOUNDS: GeoBounds = {
-  north: 48.248,
-  south: 48.055,
-  east: 11.722,
-  west: 11.360
+export const downloadGTFSData = (
+  gtfsUrl: string,
+  progressCallback?: ProgressCallback
+): Promise<GTFSData> => {
+  return runGTFSWorker({ type: 'load-url', url: gtfsUrl }, progressCallback);
+};
+
+/**
+ * Load GTFS data from a zip file supplied by the user
+ * 
+ * Uses the same worker pipeline as `loadGTFSData`, but never falls back to
+ * precalculated data - failures are reported to the caller.
+ * 
+ * @param file - GTFS zip file, e.g. from a file picker or drag-and-drop
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Object containing stops, routes, trips, and stop times
+ */
+export const loadGTFSFile = async (
+  file: File,
+  progressCallback?: ProgressCallback
+): Promise<GTFSData> => {
+  try {
+    return await runGTFSWorker({ type: 'load-file', file }, progressCallback);
+  } catch (error) {
+    console.error('Error loading GTFS file:', error);
+    throw new Error(`Failed to load GTFS file ${file.name}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+/**
+ * Load a feed from the cache
+ * 
+ * @param fingerprint - Fingerprint the feed was cached under
+ * @returns Cached data
+ */
+export const loadCachedGTFSFeed = async (fingerprint: string): Promise<GTFSData> => {
+  const data = await loadCachedFeed(fingerprint);
+  if (!data) {
+    throw new Error('The cached feed is no longer available');
+  }
+  return data;
 };
 
 /**
@@ -123,23 +269,29 @@ export const filterStopsForMunich = (
     const lat = parseFloat(stop.stop_lat.toString());
     const lon = parseFloat(stop.stop_lon.toString());
     
-    return (
-      lat >= bounds.south &&
-      lat <= bounds.north &&
-      lon >= bounds.west &&
-      lon <= bounds.east
-    );
+    return isWithinBounds(lat, lon, bounds);
   });
 };
 
 /**
- * Mapping of transport modes to GTFS route types
+ * Display names of the transport modes, in display order
+ */
+export const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = {
+  bus: 'Bus',
+  subway: 'Subway',
+  tram: 'Tram',
+  rail: 'Rail'
+};
+
+/**
+ * Mapping of transport modes to GTFS route types, including the extended
+ * route types (100-117 rail, 400-405 urban rail, 700-716 bus, 900-906 tram)
  */
 const TRANSPORT_MODE_ROUTE_TYPES: Record<TransportMode, string[]> = {
-  bus: ['3'],
-  subway: ['1'],
-  tram: ['0'],
-  rail: ['2', '100', '101', '102', '103', '104', '105', '106', '107', '108', '109']
+  bus: ['3', '700', '701', '702', '703', '704', '705', '706', '707', '708', '709', '710', '711', '712', '713', '714', '715', '716'],
+  subway: ['1', '400', '401', '402', '403', '404', '405'],
+  tram: ['0', '900', '901', '902', '903', '904', '905', '906'],
+  rail: ['2', '100', '101', '102', '103', '104', '105', '106', '107', '108', '109', '110', '111', '112', '113', '114', '115', '116', '117']
 };
 
 /**
@@ -159,90 +311,3 @@ export const filterRoutesByMode = (
     allowedRouteTypes.includes(route.route_type.toString())
   );
 };
-
-/**
- * Get all connected stops from a starting stop
- * 
- * @param startStopId - Starting stop ID
- * @param stopTimes - List of stop times
- * @param trips - List of trips
- * @param routes - List of routes
- * @param timeRadius - Time radius in minutes
- * @returns List of connected stops with travel times
- */
-export const getConnectedStops = (
-  startStopId: string,
-  stopTimes: StopTime[],
-  trips: Trip[],
-  routes: Route[],
-  timeRadius: number // in minutes
-): { stopId: string; travelTime: number }[] => {
-  // Find all trips that pass through the starting stop
-  const tripsThroughStop = stopTimes
-    .filter(st => st.stop_id === startStopId)
-    .map(st => ({
-      tripId: st.trip_id,
-      departureTime: parseTimeToMinutes(st.departure_time)
-    }));
-  
-  const connectedStops: Map<string, number> = new Map();
-  
-  // For each trip through the starting stop
-  tripsThroughStop.forEach(({ tripId, departureTime }) => {
-    // Get all stops on this trip
-    const stopsOnTrip = stopTimes
-      .filter(st => st.trip_id === tripId)
-      .sort((a, b) => {
-        return parseTimeToMinutes(a.departure_time) - parseTimeToMinutes(b.departure_time);
-      });
-    
-    // Find the index of our starting stop in this trip
-    const startStopIndex = stopsOnTrip.findIndex(st => st.stop_id === startStopId);
-    
-    if (startStopIndex !== -1) {
-      // Process stops after our starting stop
-      for (let i = startStopIndex + 1; i < stopsOnTrip.length; i++) {
-        const currentStop = stopsOnTrip[i];
-        const currentStopTime = parseTimeToMinutes(currentStop.departure_time);
-        const travelTime = currentStopTime - departureTime;
-        
-        // Only include stops within our time radius
-        if (travelTime <= timeRadius) {
-          // If we haven't seen this stop yet, or we found a faster route
-          if (!connectedStops.has(currentStop.stop_id) || 
-              connectedStops.get(currentStop.stop_id)! > travelTime) {
-            connectedStops.set(currentStop.stop_id, travelTime);
-          }
-        } else {
-          // Stop once we exceed the time radius
-          break;
-        }
-      }
-      
-      // Process stops before our starting stop (for the reverse direction)
-      for (let i = startStopIndex - 1; i >= 0; i--) {
-        const currentStop = stopsOnTrip[i];
-        const currentStopTime = parseTimeToMinutes(currentStop.departure_time);
-        const travelTime = departureTime - currentStopTime;
-        
-        // Only include stops within our time radius
-        if (travelTime <= timeRadius) {
-          // If we haven't seen this stop yet, or we found a faster route
-          if (!connectedStops.has(currentStop.stop_id) || 
-              connectedStops.get(currentStop.stop_id)! > travelTime) {
-            connectedStops.set(currentStop.stop_id, travelTime);
-          }
-        } else {
-          // Stop once we exceed the time radius
-          break;
-        }
-      }
-    }
-  });
-  
-  // Convert the Map to an array of objects
-  return Array.from(connectedStops.entries()).map(([stopId, travelTime]) => ({
-    stopId,
-    travelTime
-  }));
-};
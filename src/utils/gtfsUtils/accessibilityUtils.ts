@@ -0,0 +1,119 @@
+/**
+ * Utilities for wheelchair and bike access
+ *
+ * stops.txt marks whether wheelchair users can board at a stop
+ * (wheelchair_boarding) and trips.txt whether a vehicle can carry them
+ * (wheelchair_accessible) or bikes (bikes_allowed): 1 means yes, 2 means no,
+ * and 0 or an empty value means unknown. Platforms without information inherit
+ * it from their station.
+ */
+import { Stop, Trip } from '@/types/gtfs';
+import { BikeOptions, Timetable, UnknownAccessibilityPolicy, WheelchairOptions } from './gtfsTypes';
+import { getFrequencyTemplateId } from './frequencyUtils';
+
+/**
+ * Default options of the wheelchair profile
+ */
+export const DEFAULT_WHEELCHAIR_OPTIONS: WheelchairOptions = {
+  unknownPolicy: 'inaccessible',
+  walkingSpeedKmh: 3
+};
+
+/**
+ * Default options of the bike profile
+ */
+export const DEFAULT_BIKE_OPTIONS: BikeOptions = {
+  unknownPolicy: 'inaccessible',
+  speedKmh: 15,
+  radiusMeters: 1500
+};
+
+/**
+ * Check whether a wheelchair or bike value allows access
+ *
+ * @param value - wheelchair_boarding, wheelchair_accessible or bikes_allowed value
+ * @param policy - Treatment of unknown values
+ * @returns True if the stop or trip can be used
+ */
+const allowsAccess = (value: string | undefined, policy: UnknownAccessibilityPolicy): boolean => {
+  if (value === '1') return true;
+  if (value === '2') return false;
+  return policy === 'accessible';
+};
+
+/**
+ * Get the stops where wheelchair users can board and alight
+ *
+ * @param stops - Stops of the feed
+ * @param policy - Treatment of stops without information
+ * @returns IDs of the accessible stops
+ */
+export const getAccessibleStopIds = (
+  stops: Stop[],
+  policy: UnknownAccessibilityPolicy
+): Set<string> => {
+  const stopsById = new Map(stops.map(stop => [stop.stop_id, stop]));
+
+  return new Set(
+    stops
+      .filter(stop => {
+        const known = stop.wheelchair_boarding === '1' || stop.wheelchair_boarding === '2';
+        const parent = stop.parent_station ? stopsById.get(stop.parent_station) : undefined;
+        return allowsAccess(known ? stop.wheelchair_boarding : parent?.wheelchair_boarding, policy);
+      })
+      .map(stop => stop.stop_id)
+  );
+};
+
+/**
+ * Flag the trips of a timetable by a trips.txt field
+ *
+ * Instances of frequency-based trips take the value of their template.
+ *
+ * @param timetable - Timetable to flag the trips of
+ * @param trips - Trips of the feed
+ * @param field - Field holding the 1/2/unknown value
+ * @param policy - Treatment of trips without information
+ * @returns 1 for every allowed trip index, 0 otherwise
+ */
+const flagTrips = (
+  timetable: Timetable,
+  trips: Trip[],
+  field: 'wheelchair_accessible' | 'bikes_allowed',
+  policy: UnknownAccessibilityPolicy
+): Uint8Array => {
+  const tripsById = new Map(trips.map(trip => [trip.trip_id, trip]));
+
+  return Uint8Array.from(timetable.tripIds, tripId => {
+    const trip = tripsById.get(tripId) ?? tripsById.get(getFrequencyTemplateId(tripId));
+    return allowsAccess(trip?.[field], policy) ? 1 : 0;
+  });
+};
+
+/**
+ * Flag the trips of a timetable that can carry a wheelchair
+ *
+ * @param timetable - Timetable to flag the trips of
+ * @param trips - Trips of the feed
+ * @param policy - Treatment of trips without information
+ * @returns 1 for every accessible trip index, 0 otherwise
+ */
+export const getAccessibleTrips = (
+  timetable: Timetable,
+  trips: Trip[],
+  policy: UnknownAccessibilityPolicy
+): Uint8Array => flagTrips(timetable, trips, 'wheelchair_accessible', policy);
+
+/**
+ * Flag the trips of a timetable that take bikes
+ *
+ * @param timetable - Timetable to flag the trips of
+ * @param trips - Trips of the feed
+ * @param policy - Treatment of trips without information
+ * @returns 1 for every trip index allowing bikes, 0 otherwise
+ */
+export const getBikeTrips = (
+  timetable: Timetable,
+  trips: Trip[],
+  policy: UnknownAccessibilityPolicy
+): Uint8Array => flagTrips(timetable, trips, 'bikes_allowed', policy);
@@ -0,0 +1,115 @@
+/**
+ * Utilities for resolving GTFS service calendars
+ *
+ * Combines the weekly patterns from calendar.txt with the exceptions from
+ * calendar_dates.txt to find the services that run on a given date.
+ */
+import { Calendar, CalendarDate } from '@/types/gtfs';
+import { GTFSData } from './gtfsTypes';
+
+/**
+ * calendar.txt weekday columns, indexed like Date.getDay()
+ */
+const WEEKDAY_COLUMNS: (keyof Calendar)[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+];
+
+/**
+ * Format a date as a GTFS service date (YYYYMMDD)
+ *
+ * @param date - Date to format (local calendar day)
+ * @returns Date string in YYYYMMDD format
+ */
+export const formatServiceDate = (date: Date): string => {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+
+  return `${year}${month}${day}`;
+};
+
+/**
+ * Parse a GTFS service date (YYYYMMDD)
+ *
+ * @param serviceDate - Date string in YYYYMMDD format
+ * @returns Date at local midnight of that day
+ */
+export const parseServiceDate = (serviceDate: string): Date => {
+  return new Date(
+    Number(serviceDate.slice(0, 4)),
+    Number(serviceDate.slice(4, 6)) - 1,
+    Number(serviceDate.slice(6, 8))
+  );
+};
+
+/**
+ * Get the IDs of all services running on a date
+ *
+ * @param calendars - Weekly service patterns
+ * @param calendarDates - Service exceptions
+ * @param date - Travel date (local calendar day)
+ * @returns Set of active service IDs
+ */
+export const getActiveServiceIds = (
+  calendars: Calendar[],
+  calendarDates: CalendarDate[],
+  date: Date
+): Set<string> => {
+  const serviceDate = formatServiceDate(date);
+  const weekdayColumn = WEEKDAY_COLUMNS[date.getDay()];
+  const activeServiceIds = new Set<string>();
+
+  // Weekly patterns valid on this date
+  calendars.forEach(calendar => {
+    if (
+      calendar[weekdayColumn] === '1' &&
+      calendar.start_date <= serviceDate &&
+      calendar.end_date >= serviceDate
+    ) {
+      activeServiceIds.add(calendar.service_id);
+    }
+  });
+
+  // Exceptions override the weekly pattern
+  calendarDates.forEach(exception => {
+    if (exception.date !== serviceDate) return;
+
+    if (exception.exception_type === '1') {
+      activeServiceIds.add(exception.service_id);
+    } else if (exception.exception_type === '2') {
+      activeServiceIds.delete(exception.service_id);
+    }
+  });
+
+  return activeServiceIds;
+};
+
+/**
+ * Get the services running on a date for a loaded feed
+ *
+ * Feeds without any calendar information (such as the precalculated data)
+ * are treated as running every service every day.
+ *
+ * @param data - Parsed GTFS data
+ * @param date - Travel date (local calendar day)
+ * @returns Set of active service IDs, or null if all services run
+ */
+export const resolveActiveServices = (
+  data: Pick<GTFSData, 'calendars' | 'calendarDates'>,
+  date: Date
+): Set<string> | null => {
+  const calendars = data.calendars || [];
+  const calendarDates = data.calendarDates || [];
+
+  if (calendars.length === 0 && calendarDates.length === 0) {
+    return null;
+  }
+
+  return getActiveServiceIds(calendars, calendarDates, date);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { canStreamZipEntry, streamCSV } from './csvStream';
+
+const STOPS_CSV = '\uFEFFstop_id,stop_name\n1,"Marienplatz, Munich"\n2,"Line\nbreak"\n3,Harras\n';
+
+// Zip entry of a small stops.txt, read back as the worker does
+const loadStopsEntry = async (): Promise<JSZip.JSZipObject> => {
+  const zipData = await new JSZip().file('stops.txt', STOPS_CSV).generateAsync({ type: 'arraybuffer' });
+  return (await new JSZip().loadAsync(zipData)).file('stops.txt');
+};
+
+// Read all rows of an entry with their header
+const readRows = async (file: JSZip.JSZipObject) => {
+  const rows: Record<string, string>[] = [];
+  let columns: string[] = [];
+  const count = await streamCSV(file, row => rows.push(row), undefined, header => { columns = header; });
+  return { rows, columns, count };
+};
+
+describe('streamCSV', () => {
+  it('streams zip entries with the JSZip version in use', async () => {
+    // Fails loudly if a JSZip update removes the helper streaming relies on
+    expect(canStreamZipEntry(await loadStopsEntry())).toBe(true);
+  });
+
+  it('parses quoted fields and strips the byte order mark', async () => {
+    const { rows, columns, count } = await readRows(await loadStopsEntry());
+
+    expect(columns).toEqual(['stop_id', 'stop_name']);
+    expect(count).toBe(3);
+    expect(rows.map(row => row.stop_name)).toEqual(['Marienplatz, Munich', 'Line\nbreak', 'Harras']);
+  });
+
+  it('reads the whole file when the entry cannot be streamed', async () => {
+    const entry = await loadStopsEntry();
+    const unstreamable = { ...entry, internalStream: undefined, async: entry.async.bind(entry) } as unknown as JSZip.JSZipObject;
+
+    expect(canStreamZipEntry(unstreamable)).toBe(false);
+    expect(await readRows(unstreamable)).toEqual(await readRows(entry));
+  });
+});
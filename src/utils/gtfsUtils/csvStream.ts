@@ -0,0 +1,174 @@
+/**
+ * Streaming CSV parsing for GTFS zip entries
+ *
+ * Decompressed text is consumed chunk by chunk from the zip entry and fed through
+ * Papa Parse's step mode, so large files such as stop_times.txt are never held in
+ * memory as a single string. The zip archive itself is still read into memory.
+ *
+ * Chunks come from JSZip's internal stream helper, which is not part of its
+ * public API. Should a JSZip version drop it, files are decompressed whole
+ * instead: slower and more memory-hungry, but still correct.
+ */
+import Papa from 'papaparse';
+import type JSZip from 'jszip';
+
+/**
+ * Callback receiving one parsed CSV row keyed by header name
+ */
+export type CSVRowHandler = (row: Record<string, string>) => void;
+
+/**
+ * Callback receiving the decompression progress of a file (0-100)
+ */
+export type CSVProgressHandler = (percent: number) => void;
+
+/**
+ * Callback receiving the column names of a file
+ */
+export type CSVHeaderHandler = (columns: string[]) => void;
+
+/**
+ * Subset of JSZip's internal stream helper used for streaming
+ * (available at runtime but not part of the published typings)
+ */
+interface ZipStreamHelper {
+  on(event: 'data', callback: (chunk: string, metadata: { percent: number }) => void): ZipStreamHelper;
+  on(event: 'error', callback: (error: Error) => void): ZipStreamHelper;
+  on(event: 'end', callback: () => void): ZipStreamHelper;
+  resume(): ZipStreamHelper;
+}
+
+/**
+ * Zip entry offering JSZip's internal stream helper
+ */
+type StreamableZipObject = JSZip.JSZipObject & {
+  internalStream(type: 'string'): ZipStreamHelper;
+};
+
+/**
+ * Check whether a zip entry can be streamed
+ *
+ * @param file - Zip entry to read
+ * @returns True if the entry has JSZip's internal stream helper
+ */
+export const canStreamZipEntry = (file: JSZip.JSZipObject): file is StreamableZipObject =>
+  typeof (file as Partial<StreamableZipObject>).internalStream === 'function';
+
+/**
+ * Find the position just after the last line break that ends a complete record
+ *
+ * Line breaks inside quoted fields are skipped, so a record is never split.
+ *
+ * @param text - Buffered CSV text starting at a record boundary
+ * @returns Index after the last complete record, or -1 if there is none
+ */
+const findRecordBoundary = (text: string): number => {
+  let inQuotes = false;
+  let boundary = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    if (char === 34) { // "
+      inQuotes = !inQuotes;
+    } else if (char === 10 && !inQuotes) { // \n
+      boundary = i + 1;
+    }
+  }
+
+  return boundary;
+};
+
+/**
+ * Stream a CSV file from a zip archive row by row
+ *
+ * @param file - Zip entry to read
+ * @param onRow - Called for every data row
+ * @param onProgress - Optional callback for decompression progress
+ * @param onHeader - Optional callback for the header row
+ * @returns Promise resolving to the number of data rows read
+ */
+export const streamCSV = (
+  file: JSZip.JSZipObject,
+  onRow: CSVRowHandler,
+  onProgress?: CSVProgressHandler,
+  onHeader?: CSVHeaderHandler
+): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    let header: string[] | null = null;
+    let buffer = '';
+    let rowCount = 0;
+    let failed = false;
+
+    const handleRow = (fields: string[]) => {
+      if (!header) {
+        header = fields.map(field => field.replace(/^\uFEFF/, '').trim());
+        onHeader?.(header);
+        return;
+      }
+
+      const row: Record<string, string> = {};
+      for (let i = 0; i < header.length; i++) {
+        row[header[i]] = fields[i] !== undefined ? fields[i].trim() : '';
+      }
+
+      rowCount++;
+      onRow(row);
+    };
+
+    const parseBlock = (block: string) => {
+      Papa.parse(block, {
+        header: false,
+        skipEmptyLines: true,
+        step: (results: { data: string[] }) => handleRow(results.data)
+      });
+    };
+
+    // Without the stream helper, decompress and parse the whole file at once
+    if (!canStreamZipEntry(file)) {
+      file
+        .async('string', metadata => onProgress?.(metadata.percent))
+        .then(text => {
+          parseBlock(text);
+          resolve(rowCount);
+        })
+        .catch(reject);
+      return;
+    }
+
+    file
+      .internalStream('string')
+      .on('data', (chunk, metadata) => {
+        if (failed) return;
+
+        try {
+          buffer += chunk;
+          const boundary = findRecordBoundary(buffer);
+          if (boundary !== -1) {
+            parseBlock(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary);
+          }
+          onProgress?.(metadata.percent);
+        } catch (error) {
+          failed = true;
+          reject(error);
+        }
+      })
+      .on('error', (error) => {
+        failed = true;
+        reject(error);
+      })
+      .on('end', () => {
+        if (failed) return;
+
+        try {
+          if (buffer.trim().length > 0) {
+            parseBlock(buffer);
+          }
+          resolve(rowCount);
+        } catch (error) {
+          reject(error);
+        }
+      })
+      .resume();
+  });
+};
@@ -0,0 +1,229 @@
+/**
+ * Persistent cache of parsed feeds in IndexedDB
+ *
+ * Parsed, area-filtered feeds are stored under a fingerprint of the feed, so an
+ * unchanged feed never has to be parsed twice. Summaries and feed data live in
+ * separate object stores, which keeps listing the cache cheap. The fingerprint
+ * includes a format version: bumping it invalidates every stored feed.
+ */
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { CachedFeedSummary, GeoBounds, GTFSData } from './gtfsTypes';
+
+/**
+ * Version of the stored data format; bump when GTFSData or ingestion changes
+ */
+export const CACHE_FORMAT_VERSION = 6;
+
+const DB_NAME = 'gtfs-feed-cache';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'summaries';
+const DATA_STORE = 'feeds';
+
+/**
+ * Open the cache database, creating the object stores on first use
+ *
+ * @returns Promise resolving to the database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+        db.createObjectStore(SUMMARY_STORE, { keyPath: 'fingerprint' });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run a transaction and wait for it to complete
+ *
+ * @param storeNames - Object stores used by the transaction
+ * @param mode - Transaction mode
+ * @param operation - Issues the requests; its result is resolved once the transaction completes
+ * @returns Promise resolving to the value produced by the operation
+ */
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => () => T
+): Promise<T> => {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      const getResult = operation(transaction);
+
+      transaction.oncomplete = () => resolve(getResult());
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Compute the SHA-256 hash of a buffer
+ *
+ * @param data - Data to hash
+ * @returns Hex-encoded hash
+ */
+const sha256 = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Compute the cache key of a feed
+ *
+ * Uses the publisher and version from feed_info.txt when the feed declares a
+ * version, and a hash of the zip file otherwise. The area filter and the cache
+ * format version are part of the key, since both change the stored data.
+ *
+ * @param zipData - Raw contents of the zip file
+ * @param bounds - Area the feed is filtered to
+ * @returns Feed fingerprint
+ */
+export const computeFeedFingerprint = async (
+  zipData: ArrayBuffer,
+  bounds: GeoBounds
+): Promise<string> => {
+  const zip = await new JSZip().loadAsync(zipData);
+  const prefix = `v${CACHE_FORMAT_VERSION}|${bounds.north},${bounds.south},${bounds.east},${bounds.west}`;
+
+  const feedInfoFile = zip.file('feed_info.txt');
+  if (feedInfoFile) {
+    const text = (await feedInfoFile.async('string')).replace(/^\uFEFF/, '');
+    const [feedInfo] = Papa.parse(text, { header: true, skipEmptyLines: true }).data as Record<string, string>[];
+
+    if (feedInfo?.feed_version) {
+      return `${prefix}|version:${feedInfo.feed_publisher_name}:${feedInfo.feed_version}`;
+    }
+  }
+
+  return `${prefix}|sha256:${await sha256(zipData)}`;
+};
+
+/**
+ * Roughly estimate the stored size of a value
+ *
+ * Serializes one row at a time to avoid building a single huge string, and
+ * counts typed arrays by their byte length.
+ *
+ * @param value - Value to measure, e.g. parsed GTFS data
+ * @returns Estimated size in bytes
+ */
+const estimateSize = (value: unknown): number => {
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (Array.isArray(value)) {
+    return value.reduce<number>((sum, row) => sum + (JSON.stringify(row)?.length || 0), 0);
+  }
+  if (value instanceof Map) {
+    return estimateSize(Array.from(value.entries()));
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce<number>((sum, field) => sum + estimateSize(field), 0);
+  }
+  return JSON.stringify(value ?? null)?.length || 0;
+};
+
+/**
+ * Store a parsed feed
+ *
+ * @param fingerprint - Feed fingerprint
+ * @param data - Parsed GTFS data
+ * @param validators - HTTP validators of the downloaded file, if any
+ * @returns Summary of the stored feed
+ */
+export const saveCachedFeed = (
+  fingerprint: string,
+  data: GTFSData,
+  validators: Pick<CachedFeedSummary, 'etag' | 'lastModified'> = {}
+): Promise<CachedFeedSummary> => {
+  const summary: CachedFeedSummary = {
+    fingerprint,
+    formatVersion: CACHE_FORMAT_VERSION,
+    source: data.source || 'Unknown feed',
+    feedVersion: data.feedInfo?.feed_version,
+    savedAt: new Date().toISOString(),
+    sizeBytes: estimateSize(data),
+    stopCount: data.stops.length,
+    ...validators
+  };
+
+  return runTransaction([SUMMARY_STORE, DATA_STORE], 'readwrite', transaction => {
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    transaction.objectStore(DATA_STORE).put(data, fingerprint);
+    return () => summary;
+  });
+};
+
+/**
+ * Load a cached feed by fingerprint
+ *
+ * @param fingerprint - Feed fingerprint
+ * @returns Cached data, or null if the feed is not cached
+ */
+export const loadCachedFeed = (fingerprint: string): Promise<GTFSData | null> => {
+  return runTransaction([DATA_STORE], 'readonly', transaction => {
+    const request = transaction.objectStore(DATA_STORE).get(fingerprint);
+    return () => (request.result as GTFSData | undefined) || null;
+  });
+};
+
+/**
+ * List all cached feeds, most recently saved first
+ *
+ * Feeds stored in an older format are removed.
+ *
+ * @returns Summaries of the cached feeds
+ */
+export const listCachedFeeds = async (): Promise<CachedFeedSummary[]> => {
+  const summaries = await runTransaction([SUMMARY_STORE], 'readonly', transaction => {
+    const request = transaction.objectStore(SUMMARY_STORE).getAll();
+    return () => request.result as CachedFeedSummary[];
+  });
+
+  const outdated = summaries.filter(summary => summary.formatVersion !== CACHE_FORMAT_VERSION);
+  await Promise.all(outdated.map(summary => deleteCachedFeed(summary.fingerprint)));
+
+  return summaries
+    .filter(summary => summary.formatVersion === CACHE_FORMAT_VERSION)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/**
+ * Find the most recently saved feed from a source
+ *
+ * @param source - URL or file name the feed was loaded from
+ * @returns Summary of the cached feed, or null if there is none
+ */
+export const findCachedFeed = async (source: string): Promise<CachedFeedSummary | null> => {
+  const summaries = await listCachedFeeds();
+  return summaries.find(summary => summary.source === source) || null;
+};
+
+/**
+ * Delete a cached feed
+ *
+ * @param fingerprint - Feed fingerprint
+ */
+export const deleteCachedFeed = (fingerprint: string): Promise<void> => {
+  return runTransaction([SUMMARY_STORE, DATA_STORE], 'readwrite', transaction => {
+    transaction.objectStore(SUMMARY_STORE).delete(fingerprint);
+    transaction.objectStore(DATA_STORE).delete(fingerprint);
+    return () => undefined;
+  });
+};
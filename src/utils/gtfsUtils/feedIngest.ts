@@ -0,0 +1,231 @@
+/**
+ * Streaming GTFS feed ingestion
+ *
+ * Reads a GTFS zip file entry by entry and keeps only the part of the feed that
+ * touches the area of interest. Files are processed in dependency order so that
+ * each one can be filtered while it is being parsed:
+ * stops → stop_times → trips → routes → agency → calendar → calendar_dates
+ * → frequencies → transfers → shapes → feed_info.
+ */
+import JSZip from 'jszip';
+import { Agency, FeedInfo, Stop, Route, Trip, StopTime, Calendar, CalendarDate, Frequency, Transfer, ShapePoint } from '@/types/gtfs';
+import { GeoBounds, GTFSData, ProgressCallback } from './gtfsTypes';
+import { streamCSV, CSVProgressHandler } from './csvStream';
+import { isWithinBounds, MUNICH_BOUNDS } from './geoUtils';
+import { buildTimetable } from './timetable';
+import { validateGTFSData } from './feedValidation';
+
+/**
+ * Minimum number of in-bounds stop times a trip needs to be kept
+ */
+const MIN_STOP_TIMES_PER_TRIP = 2;
+
+/**
+ * Create a progress handler that reports every few percent for a single file
+ *
+ * @param fileName - Name of the file being parsed
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Handler receiving the decompression percentage
+ */
+const createFileProgress = (
+  fileName: string,
+  progressCallback?: ProgressCallback
+): CSVProgressHandler => {
+  let lastReported = -1;
+
+  return (percent: number) => {
+    const rounded = Math.floor(percent / 5) * 5;
+    if (rounded > lastReported) {
+      lastReported = rounded;
+      progressCallback?.(`Parsing ${fileName}... ${rounded}%`);
+    }
+  };
+};
+
+/**
+ * Parse a GTFS zip archive, dropping everything outside the given bounds
+ *
+ * @param zipData - Raw contents of the GTFS zip file
+ * @param progressCallback - Optional callback for progress reporting
+ * @param bounds - Area of interest (defaults to Munich)
+ * @returns Filtered GTFS data
+ */
+export const ingestGTFSZip = async (
+  zipData: ArrayBuffer,
+  progressCallback?: ProgressCallback,
+  bounds: GeoBounds = MUNICH_BOUNDS
+): Promise<GTFSData> => {
+  progressCallback?.('Extracting GTFS data...');
+  const zip = await new JSZip().loadAsync(zipData);
+
+  // Columns of every file found, for validation
+  const fileColumns: Record<string, string[]> = {};
+
+  const readFile = async (
+    fileName: string,
+    onRow: (row: Record<string, string>) => void
+  ): Promise<number> => {
+    const file = zip.file(fileName);
+    if (!file) {
+      progressCallback?.(`${fileName} not found in feed, skipping`);
+      return 0;
+    }
+    fileColumns[fileName] = [];
+    return streamCSV(
+      file,
+      onRow,
+      createFileProgress(fileName, progressCallback),
+      columns => { fileColumns[fileName] = columns; }
+    );
+  };
+
+  // Stops inside the bounds
+  const stops: Stop[] = [];
+  const stopIds = new Set<string>();
+  await readFile('stops.txt', row => {
+    const lat = parseFloat(row.stop_lat);
+    const lon = parseFloat(row.stop_lon);
+    if (isNaN(lat) || isNaN(lon) || !isWithinBounds(lat, lon, bounds)) return;
+
+    stops.push({ ...row, stop_lat: lat, stop_lon: lon } as unknown as Stop);
+    stopIds.add(row.stop_id);
+  });
+
+  // Stop times at those stops, counted per trip
+  let stopTimes: StopTime[] = [];
+  const stopTimeCounts = new Map<string, number>();
+  await readFile('stop_times.txt', row => {
+    if (!stopIds.has(row.stop_id)) return;
+
+    stopTimes.push(row as unknown as StopTime);
+    stopTimeCounts.set(row.trip_id, (stopTimeCounts.get(row.trip_id) || 0) + 1);
+  });
+
+  // Drop trips that only brush the area with a single stop
+  const tripIds = new Set<string>();
+  stopTimeCounts.forEach((count, tripId) => {
+    if (count >= MIN_STOP_TIMES_PER_TRIP) tripIds.add(tripId);
+  });
+  stopTimes = stopTimes.filter(st => tripIds.has(st.trip_id));
+
+  // Trips that still have stop times
+  const trips: Trip[] = [];
+  const routeIds = new Set<string>();
+  const serviceIds = new Set<string>();
+  const shapeIds = new Set<string>();
+  await readFile('trips.txt', row => {
+    if (!tripIds.has(row.trip_id)) return;
+
+    trips.push(row as unknown as Trip);
+    routeIds.add(row.route_id);
+    serviceIds.add(row.service_id);
+    if (row.shape_id) shapeIds.add(row.shape_id);
+  });
+
+  // Routes used by those trips
+  const routes: Route[] = [];
+  await readFile('routes.txt', row => {
+    if (routeIds.has(row.route_id)) {
+      routes.push(row as unknown as Route);
+    }
+  });
+
+  // Agencies of those routes (the agency ID is optional for single-agency feeds)
+  const agencyIds = new Set(routes.map(route => route.agency_id || ''));
+  const agencies: Agency[] = [];
+  await readFile('agency.txt', row => {
+    if (agencyIds.has(row.agency_id || '') || agencyIds.has('')) {
+      agencies.push(row as unknown as Agency);
+    }
+  });
+
+  // Service calendars used by those trips
+  const calendars: Calendar[] = [];
+  await readFile('calendar.txt', row => {
+    if (serviceIds.has(row.service_id)) {
+      calendars.push(row as unknown as Calendar);
+    }
+  });
+
+  const calendarDates: CalendarDate[] = [];
+  await readFile('calendar_dates.txt', row => {
+    if (serviceIds.has(row.service_id)) {
+      calendarDates.push(row as unknown as CalendarDate);
+    }
+  });
+
+  // Headway-based service of the kept trips
+  const frequencies: Frequency[] = [];
+  await readFile('frequencies.txt', row => {
+    if (tripIds.has(row.trip_id)) {
+      frequencies.push(row as unknown as Frequency);
+    }
+  });
+
+  // Transfer rules between kept stops
+  const transfers: Transfer[] = [];
+  await readFile('transfers.txt', row => {
+    if (stopIds.has(row.from_stop_id) && stopIds.has(row.to_stop_id)) {
+      transfers.push(row as unknown as Transfer);
+    }
+  });
+
+  // Paths of the kept trips, assembled into polylines
+  const shapePoints = new Map<string, { sequence: number; coordinates: [number, number] }[]>();
+  await readFile('shapes.txt', row => {
+    const shapePoint = row as unknown as ShapePoint;
+    if (!shapeIds.has(shapePoint.shape_id)) return;
+
+    const point = {
+      sequence: Number(shapePoint.shape_pt_sequence),
+      coordinates: [parseFloat(shapePoint.shape_pt_lon), parseFloat(shapePoint.shape_pt_lat)] as [number, number]
+    };
+    const points = shapePoints.get(shapePoint.shape_id);
+    if (points) {
+      points.push(point);
+    } else {
+      shapePoints.set(shapePoint.shape_id, [point]);
+    }
+  });
+
+  const shapes: Record<string, [number, number][]> = {};
+  shapePoints.forEach((points, shapeId) => {
+    shapes[shapeId] = points
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(point => point.coordinates);
+  });
+
+  // Dataset metadata
+  let feedInfo: FeedInfo | null = null;
+  await readFile('feed_info.txt', row => {
+    if (!feedInfo) feedInfo = row as unknown as FeedInfo;
+  });
+
+  progressCallback?.('Building timetable...');
+  const timetable = buildTimetable({ stops, trips, stopTimes });
+
+  const feed = {
+    agencies,
+    feedInfo,
+    stops,
+    routes,
+    trips,
+    timetable,
+    calendars,
+    calendarDates,
+    frequencies,
+    transfers,
+    shapes,
+    fileColumns
+  };
+
+  // The stop time records are checked here and then dropped in favour of the timetable
+  progressCallback?.('Validating feed...');
+  const validationReport = validateGTFSData(feed, stopTimes);
+
+  progressCallback?.(
+    `Parsed ${stops.length} stops, ${routes.length} routes, ${trips.length} trips and ${stopTimes.length} stop times`
+  );
+
+  return { ...feed, validationReport };
+};
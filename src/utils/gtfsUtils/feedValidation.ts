@@ -0,0 +1,275 @@
+/**
+ * Feed validation
+ *
+ * Checks a parsed feed against the parts of the GTFS specification that routing
+ * relies on and summarizes the problems in a report. Occurrences of the same
+ * problem are aggregated into a single issue with a count and a few examples.
+ */
+import { StopTime } from '@/types/gtfs';
+import { GTFSData, ValidationIssue, ValidationReport, ValidationSeverity } from './gtfsTypes';
+import { parseTimeToMinutes } from './timeUtils';
+
+/**
+ * Required files and their required columns
+ */
+const REQUIRED_FILES: Record<string, string[]> = {
+  'agency.txt': ['agency_name', 'agency_url', 'agency_timezone'],
+  'stops.txt': ['stop_id'],
+  'routes.txt': ['route_id', 'route_type'],
+  'trips.txt': ['route_id', 'service_id', 'trip_id'],
+  'stop_times.txt': ['trip_id', 'stop_id', 'stop_sequence']
+};
+
+/**
+ * Required columns of optional files, checked when the file is present
+ */
+const OPTIONAL_FILES: Record<string, string[]> = {
+  'calendar.txt': [
+    'service_id', 'monday', 'tuesday', 'wednesday', 'thursday',
+    'friday', 'saturday', 'sunday', 'start_date', 'end_date'
+  ],
+  'calendar_dates.txt': ['service_id', 'date', 'exception_type'],
+  'frequencies.txt': ['trip_id', 'start_time', 'end_time', 'headway_secs'],
+  'transfers.txt': ['from_stop_id', 'to_stop_id', 'transfer_type'],
+  'shapes.txt': ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence'],
+  'feed_info.txt': ['feed_publisher_name', 'feed_publisher_url', 'feed_lang']
+};
+
+/**
+ * Number of example IDs kept per issue
+ */
+const MAX_EXAMPLES = 5;
+
+/**
+ * GTFS time format (H:MM:SS or HH:MM:SS, hours may exceed 24)
+ */
+const TIME_PATTERN = /^\d{1,3}:[0-5]\d:[0-5]\d$/;
+
+/**
+ * Order in which severities are listed
+ */
+const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Collects issues, merging occurrences with the same code and file
+ */
+const createIssueCollector = () => {
+  const issues = new Map<string, ValidationIssue>();
+
+  const add = (
+    code: string,
+    severity: ValidationSeverity,
+    file: string,
+    message: string,
+    example?: string
+  ) => {
+    const key = `${code}|${file}|${message}`;
+    let issue = issues.get(key);
+    if (!issue) {
+      issue = { code, severity, file, message, count: 0, examples: [] };
+      issues.set(key, issue);
+    }
+
+    issue.count++;
+    if (example !== undefined && issue.examples.length < MAX_EXAMPLES && !issue.examples.includes(example)) {
+      issue.examples.push(example);
+    }
+  };
+
+  return { add, issues: () => Array.from(issues.values()) };
+};
+
+/**
+ * Report IDs that occur more than once
+ *
+ * @param ids - IDs to check
+ * @param file - File the IDs come from
+ * @param column - Name of the ID column
+ * @param add - Issue collector
+ */
+const checkDuplicateIds = (
+  ids: string[],
+  file: string,
+  column: string,
+  add: ReturnType<typeof createIssueCollector>['add']
+) => {
+  const seen = new Set<string>();
+  const reported = new Set<string>();
+
+  ids.forEach(id => {
+    if (!seen.has(id)) {
+      seen.add(id);
+    } else if (!reported.has(id)) {
+      reported.add(id);
+      add('duplicate_id', 'error', file, `Duplicate ${column}`, id);
+    }
+  });
+};
+
+/**
+ * Validate the structure and contents of a feed
+ *
+ * Runs while the feed is loaded, as the stop time records are only kept until
+ * the timetable is built. File and column checks need the column names recorded
+ * during ingestion and are skipped for data that was not read from a zip file.
+ *
+ * @param data - Parsed GTFS data
+ * @param stopTimes - Stop time records read from stop_times.txt
+ * @returns Validation report
+ */
+export const validateGTFSData = (
+  data: Omit<GTFSData, 'validationReport'>,
+  stopTimes: StopTime[]
+): ValidationReport => {
+  const { add, issues } = createIssueCollector();
+
+  // Required files and columns
+  if (data.fileColumns) {
+    const checkColumns = (file: string, requiredColumns: string[]) => {
+      const columns = data.fileColumns[file];
+      requiredColumns
+        .filter(column => !columns.includes(column))
+        .forEach(column => add('missing_column', 'error', file, 'Missing required column', column));
+    };
+
+    Object.entries(REQUIRED_FILES).forEach(([file, requiredColumns]) => {
+      if (data.fileColumns[file]) {
+        checkColumns(file, requiredColumns);
+      } else {
+        add('missing_file', 'error', file, 'Required file is missing', file);
+      }
+    });
+
+    Object.entries(OPTIONAL_FILES).forEach(([file, requiredColumns]) => {
+      if (data.fileColumns[file]) checkColumns(file, requiredColumns);
+    });
+
+    if (!data.fileColumns['calendar.txt'] && !data.fileColumns['calendar_dates.txt']) {
+      add('missing_file', 'error', 'calendar.txt', 'Either calendar.txt or calendar_dates.txt is required', 'calendar.txt');
+    }
+    if (!data.fileColumns['feed_info.txt']) {
+      add('missing_file', 'info', 'feed_info.txt', 'No feed publisher or validity dates', 'feed_info.txt');
+    }
+  }
+
+  // Duplicate IDs
+  checkDuplicateIds(data.stops.map(stop => stop.stop_id), 'stops.txt', 'stop_id', add);
+  checkDuplicateIds(data.routes.map(route => route.route_id), 'routes.txt', 'route_id', add);
+  checkDuplicateIds(data.trips.map(trip => trip.trip_id), 'trips.txt', 'trip_id', add);
+  checkDuplicateIds(
+    (data.agencies || []).filter(agency => agency.agency_id).map(agency => agency.agency_id),
+    'agency.txt',
+    'agency_id',
+    add
+  );
+  checkDuplicateIds(
+    stopTimes.map(st => `${st.trip_id} #${st.stop_sequence}`),
+    'stop_times.txt',
+    'trip_id and stop_sequence',
+    add
+  );
+
+  // Coordinates
+  data.stops.forEach(stop => {
+    const { stop_lat: lat, stop_lon: lon } = stop;
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      add('invalid_coordinates', 'error', 'stops.txt', 'Coordinates out of range', stop.stop_id);
+    } else if (lat === 0 && lon === 0) {
+      add('invalid_coordinates', 'warning', 'stops.txt', 'Coordinates at 0,0', stop.stop_id);
+    }
+  });
+
+  // References
+  const routeIds = new Set(data.routes.map(route => route.route_id));
+  data.trips.forEach(trip => {
+    if (!routeIds.has(trip.route_id)) {
+      add('unknown_reference', 'error', 'trips.txt', 'Trip references an unknown route_id', trip.trip_id);
+    }
+  });
+
+  const stopIds = new Set(data.stops.map(stop => stop.stop_id));
+  const tripIds = new Set(data.trips.map(trip => trip.trip_id));
+  const stopTimesByTrip = new Map<string, StopTime[]>();
+
+  stopTimes.forEach(st => {
+    if (!stopIds.has(st.stop_id)) {
+      add('unknown_reference', 'error', 'stop_times.txt', 'Stop time references an unknown stop_id', st.stop_id);
+    }
+    if (!tripIds.has(st.trip_id)) {
+      add('unknown_reference', 'error', 'stop_times.txt', 'Stop time references an unknown trip_id', st.trip_id);
+    }
+
+    const tripStops = stopTimesByTrip.get(st.trip_id);
+    if (tripStops) {
+      tripStops.push(st);
+    } else {
+      stopTimesByTrip.set(st.trip_id, [st]);
+    }
+  });
+
+  // Time formats and order within each trip
+  stopTimesByTrip.forEach((tripStops, tripId) => {
+    tripStops.sort((a, b) => Number(a.stop_sequence) - Number(b.stop_sequence));
+
+    let previousTime = -Infinity;
+    let missingEndpointTime = false;
+    let goesBackwards = false;
+
+    tripStops.forEach((st, index) => {
+      const isEndpoint = index === 0 || index === tripStops.length - 1;
+
+      [st.arrival_time, st.departure_time].forEach(time => {
+        if (!time) {
+          missingEndpointTime = missingEndpointTime || isEndpoint;
+          return;
+        }
+
+        if (!TIME_PATTERN.test(time)) {
+          add('invalid_time', 'error', 'stop_times.txt', 'Invalid time format', `${tripId}: ${time}`);
+          return;
+        }
+
+        const minutes = parseTimeToMinutes(time);
+        goesBackwards = goesBackwards || minutes < previousTime;
+        previousTime = Math.max(previousTime, minutes);
+      });
+    });
+
+    if (missingEndpointTime) {
+      add('missing_time', 'error', 'stop_times.txt', 'First and last stop of a trip need times', tripId);
+    }
+    if (goesBackwards) {
+      add('time_travel', 'error', 'stop_times.txt', 'Times go backwards within a trip', tripId);
+    }
+  });
+
+  if (stopTimes.length === 0) {
+    add('empty_feed', 'warning', 'stop_times.txt', 'No stop times in the loaded area');
+  }
+
+  const sortedIssues = issues().sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.count - a.count
+  );
+
+  const counts: Record<ValidationSeverity, number> = { error: 0, warning: 0, info: 0 };
+  sortedIssues.forEach(issue => {
+    counts[issue.severity] += issue.count;
+  });
+
+  return {
+    source: data.source || 'Unknown feed',
+    generatedAt: new Date().toISOString(),
+    counts,
+    issues: sortedIssues
+  };
+};
+
+/**
+ * Serialize a validation report for export
+ *
+ * @param report - Report to export
+ * @returns Pretty-printed JSON
+ */
+export const exportValidationReport = (report: ValidationReport): string => {
+  return JSON.stringify(report, null, 2);
+};
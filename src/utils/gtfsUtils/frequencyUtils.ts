@@ -0,0 +1,226 @@
+/**
+ * Utilities for headway-based trips (frequencies.txt)
+ *
+ * A trip listed in frequencies.txt is a template: its stop times only define the
+ * travel times between stops, and the service windows define when instances of
+ * the trip start. Instances can either be expanded into concrete trips up front
+ * or generated on demand for a time window.
+ */
+import { FrequencyExpansionMode, FrequencyTemplate, GTFSData, Timetable } from './gtfsTypes';
+import { formatMinutesToTime, parseTimeToMinutes } from './timeUtils';
+import { indexTimetable } from './timetable';
+
+/**
+ * Start of one instance of a frequency-based trip
+ */
+export interface FrequencyInstance {
+  /** Departure at the first stop, in minutes past midnight */
+  start: number;
+  /** Whether the departure is exactly scheduled (exact_times = 1) */
+  exactTimes: boolean;
+  /** Headway of the service window in minutes */
+  headway: number;
+}
+
+/**
+ * Find the frequency-based trips of a timetable
+ *
+ * @param timetable - Timetable containing the template trips
+ * @param frequencies - Service windows from frequencies.txt
+ * @returns Map of template trip index to template
+ */
+export const buildFrequencyTemplates = (
+  timetable: Timetable,
+  frequencies: GTFSData['frequencies'] = []
+): Map<number, FrequencyTemplate> => {
+  const templates = new Map<number, FrequencyTemplate>();
+
+  frequencies.forEach(frequency => {
+    const trip = timetable.tripIndex.get(frequency.trip_id);
+    if (trip === undefined || timetable.tripStart[trip] === timetable.tripStart[trip + 1]) return;
+
+    const template = templates.get(trip);
+    if (template) {
+      template.windows.push(frequency);
+    } else {
+      templates.set(trip, {
+        trip,
+        firstDeparture: timetable.departure[timetable.tripStart[trip]] / 60,
+        windows: [frequency]
+      });
+    }
+  });
+
+  return templates;
+};
+
+/**
+ * Get the instances of a frequency-based trip starting within a time window
+ *
+ * On the time-reversed timetable the service windows still hold forward starts,
+ * so the window is mirrored to find the forward instances and their starts are
+ * mirrored back.
+ *
+ * @param template - Frequency template
+ * @param fromMinutes - Earliest start to include (minutes past midnight)
+ * @param toMinutes - Latest start to include (minutes past midnight)
+ * @returns Instance starts in ascending order
+ */
+export const getFrequencyInstances = (
+  template: Pick<FrequencyTemplate, 'windows' | 'mirror'>,
+  fromMinutes: number = 0,
+  toMinutes: number = Infinity
+): FrequencyInstance[] => {
+  const { mirror } = template;
+  if (mirror !== undefined) {
+    return getFrequencyInstances({ windows: template.windows }, mirror - toMinutes, mirror - fromMinutes)
+      .map(instance => ({ ...instance, start: mirror - instance.start }))
+      .reverse();
+  }
+
+  const instances: FrequencyInstance[] = [];
+
+  template.windows.forEach(window => {
+    const windowStart = parseTimeToMinutes(window.start_time);
+    const windowEnd = parseTimeToMinutes(window.end_time);
+    const headway = Number(window.headway_secs) / 60;
+    if (!(headway > 0)) return;
+
+    const exactTimes = window.exact_times === '1';
+    const firstIndex = Math.max(0, Math.ceil((fromMinutes - windowStart) / headway));
+
+    for (let start = windowStart + firstIndex * headway; start < windowEnd && start <= toMinutes; start += headway) {
+      instances.push({ start, exactTimes, headway });
+    }
+  });
+
+  return instances.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Build the trip ID of a frequency instance
+ *
+ * @param tripId - Template trip ID
+ * @param start - Instance start in minutes past midnight
+ * @returns Unique trip ID for the instance
+ */
+export const getFrequencyInstanceId = (tripId: string, start: number): string => {
+  return `${tripId}@${formatMinutesToTime(start)}`;
+};
+
+/**
+ * Get the template trip ID of a frequency instance
+ *
+ * @param instanceId - Trip ID built by `getFrequencyInstanceId`
+ * @returns ID of the template trip (the ID itself if it has no instance suffix)
+ */
+export const getFrequencyTemplateId = (instanceId: string): string => {
+  const separator = instanceId.lastIndexOf('@');
+  return separator === -1 ? instanceId : instanceId.slice(0, separator);
+};
+
+/**
+ * Expand all frequency-based trips into concrete trips
+ *
+ * Template trips in the timetable are replaced by one trip per instance, with
+ * the template stop times shifted to the instance start. Instances of
+ * frequency-based windows (exact_times = 0) are marked as not exactly timed.
+ * Blocks are only kept between trips without frequencies. The stop_times.txt
+ * records are left as they are.
+ *
+ * @param data - Parsed GTFS data
+ * @returns GTFS data without frequency templates
+ */
+export const expandFrequencies = (data: GTFSData): GTFSData => {
+  const { timetable } = data;
+  const templates = buildFrequencyTemplates(timetable, data.frequencies);
+  if (templates.size === 0) return data;
+
+  const tripIds: string[] = [];
+  const tripRoute: number[] = [];
+  const tripService: number[] = [];
+  const tripTimesExact: number[] = [];
+  const tripStart: number[] = [0];
+  const stopTimeStop: number[] = [];
+  const arrival: number[] = [];
+  const departure: number[] = [];
+  const pickupType: number[] = [];
+  const dropOffType: number[] = [];
+  const expandedIndex = new Int32Array(timetable.tripIds.length).fill(-1);
+
+  const copyTrip = (trip: number, tripId: string, offsetSeconds: number, exactTimes: boolean) => {
+    tripIds.push(tripId);
+    tripRoute.push(timetable.tripRoute[trip]);
+    tripService.push(timetable.tripService[trip]);
+    tripTimesExact.push(exactTimes ? timetable.tripTimesExact[trip] : 0);
+
+    for (let i = timetable.tripStart[trip]; i < timetable.tripStart[trip + 1]; i++) {
+      stopTimeStop.push(timetable.stopTimeStop[i]);
+      arrival.push(timetable.arrival[i] + offsetSeconds);
+      departure.push(timetable.departure[i] + offsetSeconds);
+      pickupType.push(timetable.pickupType[i]);
+      dropOffType.push(timetable.dropOffType[i]);
+    }
+    tripStart.push(stopTimeStop.length);
+  };
+
+  timetable.tripIds.forEach((tripId, trip) => {
+    const template = templates.get(trip);
+    if (!template) {
+      expandedIndex[trip] = tripIds.length;
+      copyTrip(trip, tripId, 0, true);
+      return;
+    }
+
+    getFrequencyInstances(template).forEach(instance => {
+      const offsetSeconds = Math.round((instance.start - template.firstDeparture) * 60);
+      copyTrip(trip, getFrequencyInstanceId(tripId, instance.start), offsetSeconds, instance.exactTimes);
+    });
+  });
+
+  const tripNextInBlock = new Int32Array(tripIds.length).fill(-1);
+  timetable.tripNextInBlock.forEach((next, trip) => {
+    if (next !== -1 && expandedIndex[trip] !== -1) tripNextInBlock[expandedIndex[trip]] = expandedIndex[next];
+  });
+
+  return {
+    ...data,
+    timetable: indexTimetable({
+      stopIds: timetable.stopIds,
+      tripIds,
+      routeIds: timetable.routeIds,
+      serviceIds: timetable.serviceIds,
+      tripRoute: Int32Array.from(tripRoute),
+      tripService: Int32Array.from(tripService),
+      tripTimesExact: Uint8Array.from(tripTimesExact),
+      tripNextInBlock,
+      tripStart: Uint32Array.from(tripStart),
+      stopTimeStop: Uint32Array.from(stopTimeStop),
+      arrival: Int32Array.from(arrival),
+      departure: Int32Array.from(departure),
+      pickupType: Uint8Array.from(pickupType),
+      dropOffType: Uint8Array.from(dropOffType)
+    }),
+    frequencies: []
+  };
+};
+
+/**
+ * Prepare frequency-based trips for routing
+ *
+ * In lazy mode the templates stay as single trips. Travel times along a trip do
+ * not depend on the instance, so routing can use the template directly and
+ * generate concrete instances with `getFrequencyInstances` only when it needs
+ * departure times. Eager mode rebuilds the timetable; lazy mode reuses the one
+ * built by the parser.
+ *
+ * @param data - Parsed GTFS data
+ * @param mode - Expansion mode
+ * @returns GTFS data ready for routing
+ */
+export const applyFrequencyExpansion = (
+  data: GTFSData,
+  mode: FrequencyExpansionMode
+): GTFSData => {
+  return mode === 'eager' ? expandFrequencies(data) : data;
+};
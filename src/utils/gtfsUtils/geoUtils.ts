@@ -0,0 +1,61 @@
+/**
+ * Geographic helpers shared by the GTFS parsing utilities
+ */
+import { GeoBounds } from './gtfsTypes';
+
+/**
+ * Munich geographic bounding box for filtering stops
+ */
+export const MUNICH_BOUNDS: GeoBounds = {
+  north: 48.248,
+  south: 48.055,
+  east: 11.722,
+  west: 11.360
+};
+
+/**
+ * Check whether a coordinate lies inside a bounding box
+ *
+ * @param lat - Latitude in degrees
+ * @param lon - Longitude in degrees
+ * @param bounds - Bounding box to test against
+ * @returns True if the coordinate is inside the bounds
+ */
+export const isWithinBounds = (
+  lat: number,
+  lon: number,
+  bounds: GeoBounds
+): boolean => {
+  return (
+    lat >= bounds.south &&
+    lat <= bounds.north &&
+    lon >= bounds.west &&
+    lon <= bounds.east
+  );
+};
+
+/**
+ * Straight-line (great-circle) distance between two coordinates
+ *
+ * @param lat1 - Latitude of the first point in degrees
+ * @param lon1 - Longitude of the first point in degrees
+ * @param lat2 - Latitude of the second point in degrees
+ * @param lon2 - Longitude of the second point in degrees
+ * @returns Distance in meters
+ */
+export const haversineDistance = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const EARTH_RADIUS_METERS = 6371000;
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
@@ -5,20 +5,185 @@
  * These types are specific to the GTFS parsing and processing utilities.
  */
 
-import { Stop, Route, Trip, StopTime, TransportMode } from '@/types/gtfs';
+import { Agency, FeedInfo, Stop, Route, Trip, Calendar, CalendarDate, Frequency, Transfer, TransportMode } from '@/types/gtfs';
 
 /**
  * Parsed GTFS data containing all necessary entities
  */
 export interface GTFSData {
+  /** Agencies operating the services */
+  agencies?: Agency[];
+  /** Dataset metadata */
+  feedInfo?: FeedInfo | null;
   /** Transit stops */
   stops: Stop[];
   /** Transit routes */
   routes: Route[];
   /** Transit trips */
   trips: Trip[];
-  /** Schedule of when vehicles arrive at stops */
-  stopTimes: StopTime[];
+  /** Compact timetable built from stop_times.txt, used for routing and lookups */
+  timetable: Timetable;
+  /** Weekly service patterns */
+  calendars?: Calendar[];
+  /** Service additions and removals on specific dates */
+  calendarDates?: CalendarDate[];
+  /** Headway-based service windows for trips */
+  frequencies?: Frequency[];
+  /** Transfer rules between stops */
+  transfers?: Transfer[];
+  /** Vehicle paths as [lon, lat] polylines, keyed by shape ID */
+  shapes?: Record<string, [number, number][]>;
+  /** Where the feed was loaded from (URL, file name or precalculated data) */
+  source?: string;
+  /** Column names of each file present in the zip (absent for precalculated data) */
+  fileColumns?: Record<string, string[]>;
+  /** Problems found while loading the feed, checked against the stop time records */
+  validationReport: ValidationReport;
+}
+
+/**
+ * Columnar, index-based timetable
+ *
+ * Stops, trips, routes and services are interned to integer indices. Stop times
+ * are stored in typed arrays grouped by trip and ordered by stop sequence, so the
+ * stop times of trip `t` are the indices `tripStart[t]` to `tripStart[t + 1] - 1`.
+ * Times are in seconds since the start of the service day.
+ */
+export interface Timetable {
+  /** stop_id of each stop index */
+  stopIds: string[];
+  /** Stop index of each stop_id */
+  stopIndex: Map<string, number>;
+  /** trip_id of each trip index */
+  tripIds: string[];
+  /** Trip index of each trip_id */
+  tripIndex: Map<string, number>;
+  /** route_id of each route index */
+  routeIds: string[];
+  /** service_id of each service index */
+  serviceIds: string[];
+  /** Route index of each trip (-1 if the trip is not in trips.txt) */
+  tripRoute: Int32Array;
+  /** Service index of each trip (-1 if the trip is not in trips.txt) */
+  tripService: Int32Array;
+  /** Whether each trip's times are exact (0 for instances of frequency-based windows) */
+  tripTimesExact: Uint8Array;
+  /** Trip each trip continues as on the same vehicle, the next of its block_id (-1 if none) */
+  tripNextInBlock: Int32Array;
+  /** Offset of each trip's first stop time, with one extra entry for the end */
+  tripStart: Uint32Array;
+  /** Trip index of each stop time */
+  stopTimeTrip: Uint32Array;
+  /** Stop index of each stop time */
+  stopTimeStop: Uint32Array;
+  /** Arrival of each stop time in seconds */
+  arrival: Int32Array;
+  /** Departure of each stop time in seconds */
+  departure: Int32Array;
+  /** pickup_type of each stop time: 0 regular, 1 none, 2 phone the agency, 3 arrange with the driver */
+  pickupType: Uint8Array;
+  /** drop_off_type of each stop time, with the same values as pickupType */
+  dropOffType: Uint8Array;
+  /** Offset of each stop's entries in stopDepartures, with one extra entry for the end */
+  stopDepartureStart: Uint32Array;
+  /** Stop time indices grouped by stop and ordered by departure */
+  stopDepartures: Uint32Array;
+}
+
+/**
+ * How headway-based trips from frequencies.txt are turned into trips
+ * - `eager`: every instance becomes a trip with its own stop times
+ * - `lazy`: only the template trip is kept and instances are generated on demand
+ */
+export type FrequencyExpansionMode = 'eager' | 'lazy';
+
+/**
+ * A frequency-based trip of the timetable with its service windows
+ */
+export interface FrequencyTemplate {
+  /** Timetable index of the template trip */
+  trip: number;
+  /** Departure of the template at its first stop, in minutes past midnight */
+  firstDeparture: number;
+  /** Service windows of the trip */
+  windows: Frequency[];
+  /** Templates of the time-reversed timetable only: instances start at this minus the start of the forward instance */
+  mirror?: number;
+}
+
+/**
+ * Stations (location_type 1) and the platforms grouped under them
+ */
+export interface StationIndex {
+  /** Stations with at least one platform, by stop ID */
+  stations: Map<string, Stop>;
+  /** Platforms of each station, by station ID */
+  platforms: Map<string, Stop[]>;
+}
+
+/**
+ * How stops and trips without wheelchair information are treated
+ * - `accessible`: assume they can be used
+ * - `inaccessible`: assume they cannot be used
+ */
+export type UnknownAccessibilityPolicy = 'accessible' | 'inaccessible';
+
+/**
+ * Options of the wheelchair routing profile
+ */
+export interface WheelchairOptions {
+  /** Treatment of stops and trips with unknown accessibility */
+  unknownPolicy: UnknownAccessibilityPolicy;
+  /** Speed for walks between stops in km/h */
+  walkingSpeedKmh: number;
+}
+
+/**
+ * Options of the bike profile
+ */
+export interface BikeOptions {
+  /** Treatment of trips without bike information */
+  unknownPolicy: UnknownAccessibilityPolicy;
+  /** Cycling speed in km/h */
+  speedKmh: number;
+  /** Maximum straight-line distance cycled to, from or between stops in meters */
+  radiusMeters: number;
+}
+
+/**
+ * Walking connection between two nearby stops
+ */
+export interface Footpath {
+  /** Stop the walk starts at */
+  fromStopId: string;
+  /** Stop the walk ends at */
+  toStopId: string;
+  /** Walking or minimum transfer time in minutes */
+  duration: number;
+  /** Straight-line distance between the stops in meters */
+  distance: number;
+}
+
+/**
+ * Options for generating footpaths between stops
+ */
+export interface TransferOptions {
+  /** Maximum straight-line distance between two stops in meters */
+  footpathRadiusMeters: number;
+  /** Walking speed in km/h */
+  walkingSpeedKmh: number;
+}
+
+/**
+ * Transfers between stops, combining transfers.txt and generated footpaths
+ */
+export interface TransferModel {
+  /** Outgoing footpaths per stop */
+  footpaths: Map<string, Footpath[]>;
+  /** Minimum time in minutes to change vehicles within a stop */
+  minTransferTimes: Map<string, number>;
+  /** Stop pairs ("from|to") between which transferring is not possible */
+  forbiddenTransfers: Set<string>;
 }
 
 /**
@@ -49,3 +214,90 @@ export interface GeoBounds {
  * Pre-calculated time distances between stops
  */
 export type TimeDistanceMap = Record<string, Record<string, number>>;
+
+/**
+ * Message sent to the GTFS ingest worker
+ */
+export type GTFSWorkerRequest =
+  | {
+      type: 'load-url';
+      /** URL of the GTFS zip file */
+      url: string;
+    }
+  | {
+      type: 'load-file';
+      /** GTFS zip file supplied by the user */
+      file: File;
+    };
+
+/**
+ * Message sent back by the GTFS ingest worker
+ */
+export type GTFSWorkerResponse =
+  | { type: 'progress'; message: string }
+  | { type: 'result'; data: GTFSData }
+  | { type: 'error'; message: string };
+
+/**
+ * Summary of a parsed feed stored in the IndexedDB cache
+ */
+export interface CachedFeedSummary {
+  /** Cache key derived from the feed version or a hash of the zip */
+  fingerprint: string;
+  /** Data format version the feed was stored with */
+  formatVersion: number;
+  /** URL or file name the feed was loaded from */
+  source: string;
+  /** Version from feed_info.txt, if declared */
+  feedVersion?: string;
+  /** When the feed was stored (ISO 8601) */
+  savedAt: string;
+  /** Estimated size of the stored data in bytes */
+  sizeBytes: number;
+  /** Number of stops in the stored data */
+  stopCount: number;
+  /** ETag of the downloaded file, used to check for updates */
+  etag?: string;
+  /** Last-Modified header of the downloaded file, used to check for updates */
+  lastModified?: string;
+}
+
+/**
+ * Severity of a feed validation issue
+ * - `error`: the feed violates the GTFS specification and routing may break
+ * - `warning`: the data is suspicious but usable
+ * - `info`: noteworthy but harmless
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * One kind of problem found in a feed, with all its occurrences aggregated
+ */
+export interface ValidationIssue {
+  /** Machine-readable issue code */
+  code: string;
+  /** Severity of the issue */
+  severity: ValidationSeverity;
+  /** File the issue was found in */
+  file: string;
+  /** Human-readable description */
+  message: string;
+  /** Number of occurrences */
+  count: number;
+  /** A few affected IDs or rows */
+  examples: string[];
+}
+
+/**
+ * Result of validating a feed
+ */
+export interface ValidationReport {
+  /** Where the validated feed was loaded from */
+  source: string;
+  /** When the report was created (ISO 8601) */
+  generatedAt: string;
+  /** Number of issues per severity */
+  counts: Record<ValidationSeverity, number>;
+  /** Issues ordered by severity */
+  issues: ValidationIssue[];
+}
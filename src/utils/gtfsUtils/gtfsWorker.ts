@@ -0,0 +1,114 @@
+/**
+ * Web Worker entry point for GTFS ingestion
+ *
+ * Downloading or reading, unzipping and parsing happen here so the main thread stays
+ * responsive while large feeds are processed. Parsed feeds are stored in the feed
+ * cache, and a feed whose fingerprint is already cached is not parsed again.
+ */
+import { CachedFeedSummary, GTFSData, GTFSWorkerRequest, GTFSWorkerResponse } from './gtfsTypes';
+import { ingestGTFSZip } from './feedIngest';
+import { computeFeedFingerprint, loadCachedFeed, saveCachedFeed } from './feedCache';
+import { MUNICH_BOUNDS } from './geoUtils';
+
+/**
+ * Raw zip contents with the HTTP validators of the download
+ */
+interface ZipSource {
+  zipData: ArrayBuffer;
+  validators: Pick<CachedFeedSummary, 'etag' | 'lastModified'>;
+}
+
+const post = (message: GTFSWorkerResponse) => {
+  self.postMessage(message);
+};
+
+/**
+ * Attribute parsed or cached data and its validation report to where it was loaded from
+ *
+ * @param data - Parsed GTFS data
+ * @param source - URL or file name
+ * @returns Data with the source set
+ */
+const withSource = (data: GTFSData, source: string): GTFSData => ({
+  ...data,
+  source,
+  validationReport: { ...data.validationReport, source }
+});
+
+/**
+ * Download a GTFS zip file
+ *
+ * @param url - URL of the zip file
+ * @returns Raw contents of the zip file and its HTTP validators
+ */
+const downloadZip = async (url: string): Promise<ZipSource> => {
+  post({ type: 'progress', message: 'Downloading GTFS data...' });
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download GTFS data: ${response.status} ${response.statusText}`);
+  }
+
+  return {
+    zipData: await response.arrayBuffer(),
+    validators: {
+      etag: response.headers.get('ETag') || undefined,
+      lastModified: response.headers.get('Last-Modified') || undefined
+    }
+  };
+};
+
+/**
+ * Read the zip file referenced by a worker request
+ *
+ * @param request - Request received from the main thread
+ * @returns Raw contents of the zip file
+ */
+const readZip = async (request: GTFSWorkerRequest): Promise<ZipSource> => {
+  if (request.type === 'load-file') {
+    post({ type: 'progress', message: `Reading ${request.file.name}...` });
+    return { zipData: await request.file.arrayBuffer(), validators: {} };
+  }
+
+  return downloadZip(request.url);
+};
+
+self.onmessage = async (event: MessageEvent<GTFSWorkerRequest>) => {
+  try {
+    const request = event.data;
+    const source = request.type === 'load-file' ? request.file.name : request.url;
+    const { zipData, validators } = await readZip(request);
+
+    // Skip parsing when this exact feed was parsed before
+    const fingerprint = await computeFeedFingerprint(zipData, MUNICH_BOUNDS);
+    const cachedData = await loadCachedFeed(fingerprint).catch(() => null);
+    if (cachedData) {
+      post({ type: 'progress', message: 'Feed unchanged, using cached data' });
+      post({ type: 'result', data: withSource(cachedData, source) });
+      return;
+    }
+
+    const data = withSource(
+      await ingestGTFSZip(
+        zipData,
+        (message) => post({ type: 'progress', message })
+      ),
+      source
+    );
+
+    // A feed that cannot be cached (e.g. storage quota exceeded) is still usable
+    try {
+      post({ type: 'progress', message: 'Saving feed to cache...' });
+      await saveCachedFeed(fingerprint, data, validators);
+    } catch (error) {
+      console.warn('Failed to cache GTFS feed:', error);
+    }
+
+    post({ type: 'result', data });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
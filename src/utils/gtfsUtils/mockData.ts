@@ -7,6 +7,8 @@
 import { Stop, Route, Trip, StopTime } from '@/types/gtfs';
 import { GTFSData, TimeDistanceMap } from './gtfsTypes';
 import { formatMinutesToTime, parseTimeToMinutes } from './timeUtils';
+import { buildTimetable } from './timetable';
+import { validateGTFSData } from './feedValidation';
 
 /**
  * Pre-calculated time distances between stops (in minutes)
@@ -68,7 +70,15 @@ export const getMockGTFSData = (): GTFSData => {
   // Generate stop times based on the precalculated time distances
   const stopTimes: StopTime[] = generateMockStopTimes(trips, MUNICH_TIME_DISTANCE_MAP);
   
-  return { stops, routes, trips, stopTimes };
+  const data = {
+    stops,
+    routes,
+    trips,
+    timetable: buildTimetable({ stops, trips, stopTimes }),
+    source: 'Precalculated Munich data'
+  };
+  
+  return { ...data, validationReport: validateGTFSData(data, stopTimes) };
 };
 
 /**
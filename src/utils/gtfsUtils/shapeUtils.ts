@@ -0,0 +1,197 @@
+/**
+ * Utilities for route geometries from shapes.txt
+ *
+ * Builds line features for the routes serving a set of stops, and for the
+ * legs of a journey. Trips without a shape fall back to a straight line through
+ * their stops.
+ */
+import { Route } from '@/types/gtfs';
+import { Journey } from '@/utils/routingUtils/types';
+import { getFrequencyTemplateId } from './frequencyUtils';
+import { GTFSData } from './gtfsTypes';
+
+/**
+ * Colors used when a route has no route_color, by GTFS route type
+ */
+const DEFAULT_ROUTE_TYPE_COLORS: Record<string, string> = {
+  '0': '#d82020', // tram
+  '1': '#0065ae', // subway
+  '2': '#408335', // rail
+  '3': '#00586a'  // bus
+};
+
+/**
+ * Get the display color of a route
+ *
+ * @param route - Route to color
+ * @returns Color string in hex format
+ */
+export const getRouteColor = (route: Route): string => {
+  if (route.route_color) {
+    return `#${route.route_color.replace(/^#/, '')}`;
+  }
+  return DEFAULT_ROUTE_TYPE_COLORS[route.route_type] || '#666666';
+};
+
+/**
+ * Get the line geometries of all routes serving a set of stops
+ *
+ * Each distinct path of a route becomes one feature, so branches and both
+ * directions are drawn.
+ *
+ * @param stopIds - IDs of the stops of interest
+ * @param data - Parsed GTFS data
+ * @returns Line features with route properties
+ */
+export const getRouteLinesForStops = (
+  stopIds: string[],
+  data: GTFSData
+): GeoJSON.Feature<GeoJSON.LineString>[] => {
+  if (stopIds.length === 0) return [];
+
+  const { timetable } = data;
+  const shapes = data.shapes || {};
+
+  // Trips stopping at any of the stops
+  const servingTrips = new Set<number>();
+  stopIds.forEach(stopId => {
+    const stop = timetable.stopIndex.get(stopId);
+    if (stop === undefined) return;
+
+    for (let d = timetable.stopDepartureStart[stop]; d < timetable.stopDepartureStart[stop + 1]; d++) {
+      servingTrips.add(timetable.stopTimeTrip[timetable.stopDepartures[d]]);
+    }
+  });
+  if (servingTrips.size === 0) return [];
+
+  const stopsById = new Map(data.stops.map(stop => [stop.stop_id, stop]));
+  const routesById = new Map(data.routes.map(route => [route.route_id, route]));
+  const tripsById = new Map(data.trips.map(trip => [trip.trip_id, trip]));
+
+  // One geometry per distinct path of each route
+  const lines = new Map<string, { route: Route; coordinates: [number, number][] }>();
+
+  servingTrips.forEach(tripIndex => {
+    const trip = tripsById.get(timetable.tripIds[tripIndex]);
+    const route = trip && routesById.get(trip.route_id);
+    if (!route) return;
+
+    if (trip.shape_id && shapes[trip.shape_id]) {
+      const key = `${route.route_id}|shape:${trip.shape_id}`;
+      if (!lines.has(key)) {
+        lines.set(key, { route, coordinates: shapes[trip.shape_id] });
+      }
+      return;
+    }
+
+    const tripStopIds = Array.from(
+      timetable.stopTimeStop.subarray(timetable.tripStart[tripIndex], timetable.tripStart[tripIndex + 1]),
+      stop => timetable.stopIds[stop]
+    );
+    const key = `${route.route_id}|stops:${tripStopIds.join(',')}`;
+    if (lines.has(key)) return;
+
+    const coordinates = tripStopIds
+      .map(stopId => stopsById.get(stopId))
+      .filter(stop => stop !== undefined)
+      .map(stop => [stop.stop_lon, stop.stop_lat] as [number, number]);
+
+    if (coordinates.length >= 2) {
+      lines.set(key, { route, coordinates });
+    }
+  });
+
+  return Array.from(lines.values()).map(({ route, coordinates }) => ({
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates },
+    properties: {
+      route_id: route.route_id,
+      route_short_name: route.route_short_name,
+      route_long_name: route.route_long_name,
+      route_type: route.route_type,
+      color: getRouteColor(route)
+    }
+  }));
+};
+
+/**
+ * Cut the part of a shape that runs through a sequence of stops
+ *
+ * Each stop is matched to the nearest shape point after the previous stop's, so
+ * shapes that pass the same place twice (loops) are cut at the right pass.
+ *
+ * @param shape - Shape points as [lon, lat]
+ * @param stops - Coordinates of the stops passed, in order, as [lon, lat]
+ * @returns Shape points from the first stop to the last, starting and ending at the stops
+ */
+const sliceShape = (shape: [number, number][], stops: [number, number][]): [number, number][] => {
+  const scale = Math.cos((stops[0][1] * Math.PI) / 180);
+  let index = 0;
+  let first = 0;
+
+  stops.forEach(([lon, lat], position) => {
+    let nearest = Infinity;
+    for (let i = index; i < shape.length; i++) {
+      const distance = ((shape[i][0] - lon) * scale) ** 2 + (shape[i][1] - lat) ** 2;
+      if (distance < nearest) {
+        nearest = distance;
+        index = i;
+      }
+    }
+    if (position === 0) first = index;
+  });
+
+  return [stops[0], ...shape.slice(first, index + 1), stops[stops.length - 1]];
+};
+
+/**
+ * Get the path of a journey as line features, one per leg
+ *
+ * Vehicle legs follow the shape of their trip between the stops passed, or run
+ * straight through those stops if the trip has no shape, and are colored by
+ * route; walks are straight lines.
+ *
+ * @param journey - Journey to draw
+ * @param data - Parsed GTFS data
+ * @param point - The chosen point a walk leg starts or ends at, as [lon, lat]
+ * @returns Line features with the leg's mode, route and color
+ */
+export const getJourneyLines = (
+  journey: Journey,
+  data: GTFSData,
+  point: [number, number]
+): GeoJSON.Feature<GeoJSON.LineString>[] => {
+  const stopsById = new Map(data.stops.map(stop => [stop.stop_id, stop]));
+  const routesById = new Map(data.routes.map(route => [route.route_id, route]));
+  const tripsById = new Map(data.trips.map(trip => [trip.trip_id, trip]));
+  const shapes = data.shapes || {};
+
+  const coordinatesOf = (stopId: string | null): [number, number] | undefined => {
+    if (stopId === null) return point;
+    const stop = stopsById.get(stopId);
+    return stop && [stop.stop_lon, stop.stop_lat];
+  };
+
+  return journey.legs.map(leg => {
+    const route = leg.routeId ? routesById.get(leg.routeId) : undefined;
+    const stopIds = leg.mode === 'transit' ? leg.stopIds : [leg.fromStopId, leg.toStopId];
+    let coordinates = stopIds.map(coordinatesOf).filter(coordinate => coordinate !== undefined);
+
+    // Instances of frequency-based trips share the shape of their template
+    const trip = leg.tripId && (tripsById.get(leg.tripId) ?? tripsById.get(getFrequencyTemplateId(leg.tripId)));
+    const shapeId = trip && trip.shape_id;
+    if (shapeId && shapes[shapeId]?.length >= 2 && coordinates.length >= 2) {
+      coordinates = sliceShape(shapes[shapeId], coordinates);
+    }
+
+    return {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates },
+      properties: {
+        mode: leg.mode,
+        route_short_name: route?.route_short_name,
+        color: route ? getRouteColor(route) : '#444444'
+      }
+    } as GeoJSON.Feature<GeoJSON.LineString>;
+  }).filter(feature => feature.geometry.coordinates.length >= 2);
+};
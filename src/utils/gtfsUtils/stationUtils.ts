@@ -0,0 +1,119 @@
+/**
+ * Utilities for stations and their platforms
+ *
+ * Large stations are modelled as a parent stop (location_type 1) with one child
+ * stop per platform, linked by parent_station. Only platforms are served by
+ * trips, so choosing a station means starting from all of its platforms.
+ */
+import { Stop } from '@/types/gtfs';
+import { AccessStop } from '@/utils/routingUtils/types';
+import { StationIndex } from './gtfsTypes';
+import { haversineDistance } from './geoUtils';
+import { calculateWalkingTime } from './transferUtils';
+
+/**
+ * Check whether a stop is a stop or platform where vehicles halt
+ *
+ * @param stop - Stop to check
+ * @returns True for location_type 0 or empty
+ */
+const isPlatform = (stop: Stop): boolean => !stop.location_type || stop.location_type === '0';
+
+/**
+ * Group the platforms of a feed under their parent stations
+ *
+ * Entrances, generic nodes and boarding areas are ignored, as are stations
+ * without platforms among the given stops.
+ *
+ * @param stops - Stops of the feed
+ * @returns Stations and their platforms
+ */
+export const buildStationIndex = (stops: Stop[]): StationIndex => {
+  const candidates = new Map(
+    stops.filter(stop => stop.location_type === '1').map(stop => [stop.stop_id, stop])
+  );
+  const stations = new Map<string, Stop>();
+  const platforms = new Map<string, Stop[]>();
+
+  stops.forEach(stop => {
+    if (!isPlatform(stop) || !stop.parent_station) return;
+
+    const station = candidates.get(stop.parent_station);
+    if (!station) return;
+
+    const stationPlatforms = platforms.get(station.stop_id);
+    if (stationPlatforms) {
+      stationPlatforms.push(stop);
+    } else {
+      stations.set(station.stop_id, station);
+      platforms.set(station.stop_id, [stop]);
+    }
+  });
+
+  return { stations, platforms };
+};
+
+/**
+ * Get the stops riders choose from: stations and stops outside any station
+ *
+ * @param stops - Stops to choose from, in display order
+ * @param index - Stations of the feed
+ * @returns Stations with platforms and standalone stops
+ */
+export const getSelectableStops = (stops: Stop[], index: StationIndex): Stop[] => {
+  return stops.filter(stop =>
+    index.stations.has(stop.stop_id) ||
+    (isPlatform(stop) && !(stop.parent_station && index.stations.has(stop.parent_station)))
+  );
+};
+
+/**
+ * Get the IDs of the stops served by trips at a chosen stop
+ *
+ * @param index - Stations of the feed
+ * @param stopId - Chosen station or stop
+ * @returns Platform IDs of a station, or the stop's own ID
+ */
+export const getStationStopIds = (index: StationIndex, stopId: string): string[] => {
+  const platforms = index.platforms.get(stopId);
+  return platforms ? platforms.map(platform => platform.stop_id) : [stopId];
+};
+
+/**
+ * Get the stops a journey from a chosen stop starts at
+ *
+ * A station is left from every platform, each reached by walking from the
+ * station's location. Changes between the platforms later on are covered by
+ * the footpaths of the transfer model.
+ *
+ * @param index - Stations of the feed
+ * @param stop - Chosen station or stop
+ * @param walkingSpeedKmh - Walking speed in km/h
+ * @returns Access stops with the walking time to each
+ */
+export const getStationAccessStops = (
+  index: StationIndex,
+  stop: Stop,
+  walkingSpeedKmh: number
+): AccessStop[] => {
+  const platforms = index.platforms.get(stop.stop_id);
+  if (!platforms) return [{ stopId: stop.stop_id, duration: 0 }];
+
+  return platforms.map(platform => ({
+    stopId: platform.stop_id,
+    duration: calculateWalkingTime(
+      haversineDistance(stop.stop_lat, stop.stop_lon, platform.stop_lat, platform.stop_lon),
+      walkingSpeedKmh
+    )
+  }));
+};
+
+/**
+ * Get the display label of a platform
+ *
+ * @param platform - Platform stop
+ * @returns Platform code if set, otherwise the stop name
+ */
+export const getPlatformLabel = (platform: Stop): string => {
+  return platform.platform_code ? `Platform ${platform.platform_code}` : platform.stop_name;
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { formatMinutesToTime, MINUTES_PER_DAY, parseTimeToMinutes, resolveServiceTime } from './timeUtils';
+
+describe('times past midnight', () => {
+  it('keeps GTFS times from 24:00:00 on the service day they belong to', () => {
+    expect(parseTimeToMinutes('24:10:00')).toBe(MINUTES_PER_DAY + 10);
+    expect(formatMinutesToTime(parseTimeToMinutes('25:30:30'))).toBe('25:30:30');
+  });
+
+  it('places an early-morning query one day after the previous service day', () => {
+    const query = resolveServiceTime('20260321', '00:30:00', 'Europe/Berlin', 'Europe/Berlin');
+    const previousDay = resolveServiceTime('20260320', '24:30:00', 'Europe/Berlin', 'Europe/Berlin');
+    expect(query).toBe(30);
+    expect(previousDay - MINUTES_PER_DAY).toBe(query);
+  });
+
+  it('resolves a query in another timezone to the agency service day', () => {
+    // 00:30 in London is 01:30 in Berlin
+    expect(resolveServiceTime('20260321', '00:30:00', 'Europe/London', 'Europe/Berlin')).toBe(90);
+  });
+});
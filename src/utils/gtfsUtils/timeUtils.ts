@@ -2,6 +2,7 @@
 /**
  * Utilities for handling GTFS time formats and calculations
  */
+import { Agency, Stop } from '@/types/gtfs';
 
 /**
  * Parse GTFS time format (HH:MM:SS) to minutes past midnight
@@ -14,6 +15,19 @@ export const parseTimeToMinutes = (timeStr: string): number => {
   return hours * 60 + minutes + (seconds ? seconds / 60 : 0);
 };
 
+/**
+ * Parse GTFS time format (HH:MM:SS) to seconds past midnight
+ * 
+ * @param timeStr - Time string in HH:MM:SS format
+ * @returns Time in seconds past midnight, or NaN if the time is empty or invalid
+ */
+export const parseTimeToSeconds = (timeStr: string): number => {
+  if (!timeStr) return NaN;
+  
+  const [hours, minutes, seconds] = timeStr.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + (seconds || 0);
+};
+
 /**
  * Format minutes past midnight to GTFS time format (HH:MM:SS)
  * 
@@ -27,3 +41,150 @@ export const formatMinutesToTime = (minutes: number): string => {
   
   return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
+
+/**
+ * Length of a service day in minutes, by which times of consecutive service days differ
+ */
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Timezone used when a feed does not specify one
+ */
+export const DEFAULT_TIMEZONE = 'Europe/Berlin';
+
+/**
+ * Get the UTC offset of a timezone at an instant
+ * 
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone name
+ * @returns Offset in minutes (positive east of UTC)
+ */
+export const getTimezoneOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClockAsUTC = Date.UTC(
+    part('year'), part('month') - 1, part('day'),
+    part('hour'), part('minute'), part('second')
+  );
+  const instantSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  
+  return Math.round((wallClockAsUTC - instantSeconds) / 60000);
+};
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ * 
+ * Times that do not exist (skipped by a DST change) resolve to the instant
+ * after the gap; ambiguous times resolve to the first occurrence.
+ * 
+ * @param serviceDate - Date in YYYYMMDD format
+ * @param minutes - Minutes past local midnight
+ * @param timeZone - IANA timezone name
+ * @returns The corresponding instant
+ */
+export const zonedTimeToInstant = (
+  serviceDate: string,
+  minutes: number,
+  timeZone: string
+): Date => {
+  const year = Number(serviceDate.slice(0, 4));
+  const month = Number(serviceDate.slice(4, 6));
+  const day = Number(serviceDate.slice(6, 8));
+  const wallClockAsUTC = Date.UTC(year, month - 1, day) + minutes * 60000;
+  
+  // Offsets in effect half a day before and after cover any DST change
+  const HALF_DAY = 12 * 60 * 60000;
+  const offsetBefore = getTimezoneOffsetMinutes(new Date(wallClockAsUTC - HALF_DAY), timeZone);
+  const offsetAfter = getTimezoneOffsetMinutes(new Date(wallClockAsUTC + HALF_DAY), timeZone);
+  
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => wallClockAsUTC - offset * 60000)
+    .filter((instant, i) => getTimezoneOffsetMinutes(new Date(instant), timeZone) === [offsetBefore, offsetAfter][i]);
+  
+  if (candidates.length === 0) {
+    // Skipped wall-clock time: keep counting with the offset before the gap
+    return new Date(wallClockAsUTC - offsetBefore * 60000);
+  }
+  
+  return new Date(Math.min(...candidates));
+};
+
+/**
+ * Get the reference instant of a GTFS service day
+ * 
+ * GTFS times count from "noon minus 12h" on the service date, which differs
+ * from local midnight on days with a DST change.
+ * 
+ * @param serviceDate - Service date in YYYYMMDD format
+ * @param timeZone - Agency timezone
+ * @returns Instant that GTFS time 00:00:00 refers to
+ */
+export const getServiceDayStart = (serviceDate: string, timeZone: string): Date => {
+  const noon = zonedTimeToInstant(serviceDate, 12 * 60, timeZone);
+  return new Date(noon.getTime() - 12 * 60 * 60000);
+};
+
+/**
+ * Resolve a wall-clock departure on a date to GTFS service time
+ * 
+ * @param serviceDate - Travel date in YYYYMMDD format
+ * @param timeStr - Local time in HH:MM or HH:MM:SS format
+ * @param queryTimeZone - Timezone the time is given in (e.g. the origin stop's)
+ * @param agencyTimeZone - Timezone of the feed's agency
+ * @returns Minutes since the start of the service day
+ */
+export const resolveServiceTime = (
+  serviceDate: string,
+  timeStr: string,
+  queryTimeZone: string,
+  agencyTimeZone: string
+): number => {
+  const instant = zonedTimeToInstant(serviceDate, parseTimeToMinutes(timeStr), queryTimeZone);
+  const serviceDayStart = getServiceDayStart(serviceDate, agencyTimeZone);
+  
+  return (instant.getTime() - serviceDayStart.getTime()) / 60000;
+};
+
+/**
+ * Get the timezone a feed's times are expressed in
+ * 
+ * All agencies of a feed must share one timezone, so the first one is used.
+ * 
+ * @param agencies - Agencies from agency.txt
+ * @returns IANA timezone name
+ */
+export const getFeedTimezone = (agencies: Agency[] = []): string => {
+  return agencies.find(agency => agency.agency_timezone)?.agency_timezone || DEFAULT_TIMEZONE;
+};
+
+/**
+ * Get the local timezone of a stop
+ * 
+ * Stops without stop_timezone inherit it from their parent station, and
+ * otherwise use the feed timezone.
+ * 
+ * @param stop - Stop to look up
+ * @param stopsById - All stops of the feed by ID
+ * @param feedTimeZone - Timezone of the feed's agency
+ * @returns IANA timezone name
+ */
+export const getStopTimezone = (
+  stop: Stop,
+  stopsById: Map<string, Stop>,
+  feedTimeZone: string
+): string => {
+  if (stop.stop_timezone) return stop.stop_timezone;
+  
+  const parent = stop.parent_station ? stopsById.get(stop.parent_station) : undefined;
+  return parent?.stop_timezone || feedTimeZone;
+};
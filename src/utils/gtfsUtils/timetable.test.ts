@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Stop, StopTime, Trip } from '@/types/gtfs';
+import { buildTimetable } from './timetable';
+
+const stops: Stop[] = ['X', 'Y', 'Z', 'W'].map((stop_id, i) => ({
+  stop_id, stop_name: stop_id, stop_lat: 48.1 + i / 100, stop_lon: 11.5
+}));
+
+const stopTime = (trip_id: string, stop_id: string, stop_sequence: string, time: string): StopTime => ({
+  trip_id, stop_id, stop_sequence, arrival_time: time, departure_time: time
+});
+
+// Next trip of a trip's block, by trip ID (null if the vehicle does not continue)
+const getNextTrip = (trips: Trip[], stopTimes: StopTime[], tripId: string): string | null => {
+  const { tripIds, tripIndex, tripNextInBlock } = buildTimetable({ stops, trips, stopTimes });
+  const next = tripNextInBlock[tripIndex.get(tripId)];
+  return next === -1 ? null : tripIds[next];
+};
+
+describe('blocks', () => {
+  it('links a trip to the next trip of its vehicle', () => {
+    const trips: Trip[] = [
+      { trip_id: 'out', route_id: 'R', service_id: 'WK', block_id: '1' },
+      { trip_id: 'on', route_id: 'R', service_id: 'WK', block_id: '1' }
+    ];
+    const stopTimes = [
+      stopTime('out', 'X', '1', '08:00:00'), stopTime('out', 'Y', '2', '08:20:00'),
+      stopTime('on', 'Y', '1', '08:25:00'), stopTime('on', 'Z', '2', '08:40:00')
+    ];
+    expect(getNextTrip(trips, stopTimes, 'out')).toBe('on');
+    expect(getNextTrip(trips, stopTimes, 'on')).toBe(null);
+  });
+
+  it('keeps a block_id shared by other services apart', () => {
+    // The weekend run of the block leaves in between but does not run on weekdays
+    const trips: Trip[] = [
+      { trip_id: 'weekday-out', route_id: 'R', service_id: 'WK', block_id: '1' },
+      { trip_id: 'weekend-out', route_id: 'R', service_id: 'WE', block_id: '1' },
+      { trip_id: 'weekday-on', route_id: 'R', service_id: 'WK', block_id: '1' }
+    ];
+    const stopTimes = [
+      stopTime('weekday-out', 'X', '1', '08:00:00'), stopTime('weekday-out', 'Y', '2', '08:20:00'),
+      stopTime('weekend-out', 'Y', '1', '08:22:00'), stopTime('weekend-out', 'Z', '2', '08:35:00'),
+      stopTime('weekday-on', 'Y', '1', '08:25:00'), stopTime('weekday-on', 'Z', '2', '08:40:00')
+    ];
+    expect(getNextTrip(trips, stopTimes, 'weekday-out')).toBe('weekday-on');
+    expect(getNextTrip(trips, stopTimes, 'weekend-out')).toBe(null);
+  });
+
+  it('does not link a trip starting elsewhere than the previous one ends', () => {
+    const trips: Trip[] = [
+      { trip_id: 'out', route_id: 'R', service_id: 'WK', block_id: '1' },
+      { trip_id: 'on', route_id: 'R', service_id: 'WK', block_id: '1' }
+    ];
+    const stopTimes = [
+      stopTime('out', 'X', '1', '08:00:00'), stopTime('out', 'Y', '2', '08:20:00'),
+      stopTime('on', 'W', '1', '08:25:00'), stopTime('on', 'Z', '2', '08:40:00')
+    ];
+    expect(getNextTrip(trips, stopTimes, 'out')).toBe(null);
+  });
+
+  it('does not link a trip leaving before the previous one arrives', () => {
+    const trips: Trip[] = [
+      { trip_id: 'out', route_id: 'R', service_id: 'WK', block_id: '1' },
+      { trip_id: 'on', route_id: 'R', service_id: 'WK', block_id: '1' }
+    ];
+    const stopTimes = [
+      stopTime('out', 'X', '1', '08:00:00'), stopTime('out', 'Y', '2', '08:20:00'),
+      stopTime('on', 'Y', '1', '08:15:00'), stopTime('on', 'Z', '2', '08:40:00')
+    ];
+    expect(getNextTrip(trips, stopTimes, 'out')).toBe(null);
+  });
+});
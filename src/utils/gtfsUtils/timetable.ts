@@ -0,0 +1,358 @@
+/**
+ * Compact columnar timetable
+ *
+ * Turns the string records of stops, trips and stop times into integer indices
+ * and typed arrays once, so routing never has to parse times, sort stop
+ * sequences or scan all stop times again.
+ */
+import { StopTime } from '@/types/gtfs';
+import { GTFSData, Timetable } from './gtfsTypes';
+import { parseTimeToSeconds } from './timeUtils';
+
+/**
+ * Timetable columns from which the lookup indices are derived
+ */
+export type TimetableColumns = Pick<
+  Timetable,
+  'stopIds' | 'tripIds' | 'routeIds' | 'serviceIds' | 'tripRoute' | 'tripService' |
+  'tripTimesExact' | 'tripNextInBlock' | 'tripStart' | 'stopTimeStop' | 'arrival' | 'departure' | 'pickupType' | 'dropOffType'
+>;
+
+/**
+ * Get the index of an ID, adding it if it is new
+ *
+ * @param ids - IDs by index
+ * @param index - Index by ID
+ * @param id - ID to look up
+ * @returns Index of the ID
+ */
+const intern = (ids: string[], index: Map<string, number>, id: string): number => {
+  let i = index.get(id);
+  if (i === undefined) {
+    i = ids.length;
+    ids.push(id);
+    index.set(id, i);
+  }
+  return i;
+};
+
+/**
+ * Fill in missing times of a trip
+ *
+ * A stop with only one of its times uses it for both. Stops without any time
+ * are interpolated linearly between the surrounding timed stops.
+ *
+ * @param arrival - Arrival times (NaN where missing)
+ * @param departure - Departure times (NaN where missing)
+ * @param start - First stop time of the trip
+ * @param end - End of the trip's stop times (exclusive)
+ */
+const interpolateMissingTimes = (
+  arrival: Float64Array,
+  departure: Float64Array,
+  start: number,
+  end: number
+) => {
+  for (let i = start; i < end; i++) {
+    if (isNaN(arrival[i])) arrival[i] = departure[i];
+    if (isNaN(departure[i])) departure[i] = arrival[i];
+  }
+
+  let previous = -1;
+  for (let i = start; i < end; i++) {
+    if (isNaN(departure[i])) continue;
+
+    if (previous !== -1 && i - previous > 1) {
+      const step = (arrival[i] - departure[previous]) / (i - previous);
+      for (let j = previous + 1; j < i; j++) {
+        arrival[j] = departure[j] = departure[previous] + step * (j - previous);
+      }
+    }
+    previous = i;
+  }
+};
+
+/**
+ * Link every trip to the trip its vehicle continues as
+ *
+ * Trips of a block that share a service are ordered by their first departure;
+ * each one continues as the next if that starts at the stop the trip ends at,
+ * no earlier than the trip arrives there. Feeds reusing a block_id for other
+ * services (e.g. weekday and weekend runs) keep one chain per service, so a
+ * trip never continues as one that is not running that day.
+ *
+ * @param tripBlocks - Block and service key of each trip index (undefined without block_id)
+ * @param tripStart - First stop time of each trip, with one extra entry for the end
+ * @param stopTimeStop - Stop of each stop time
+ * @param arrival - Arrival of each stop time in seconds
+ * @param departure - Departure of each stop time in seconds
+ * @returns Next trip of each trip's block (-1 if none)
+ */
+const linkBlocks = (
+  tripBlocks: (string | undefined)[],
+  tripStart: Uint32Array,
+  stopTimeStop: Uint32Array,
+  arrival: Int32Array,
+  departure: Int32Array
+): Int32Array => {
+  const tripNextInBlock = new Int32Array(tripStart.length - 1).fill(-1);
+  const blocks = new Map<string, number[]>();
+
+  tripBlocks.forEach((block, trip) => {
+    if (block === undefined || tripStart[trip] === tripStart[trip + 1]) return;
+    const trips = blocks.get(block);
+    if (trips) {
+      trips.push(trip);
+    } else {
+      blocks.set(block, [trip]);
+    }
+  });
+
+  blocks.forEach(trips => {
+    trips.sort((a, b) => departure[tripStart[a]] - departure[tripStart[b]]);
+    for (let i = 1; i < trips.length; i++) {
+      const first = tripStart[trips[i]];
+      const last = tripStart[trips[i - 1] + 1] - 1;
+      if (stopTimeStop[first] === stopTimeStop[last] && departure[first] >= arrival[last]) {
+        tripNextInBlock[trips[i - 1]] = trips[i];
+      }
+    }
+  });
+
+  return tripNextInBlock;
+};
+
+/**
+ * Derive the lookup indices of a timetable from its columns
+ *
+ * @param columns - Stop, trip and stop time columns
+ * @returns Complete timetable
+ */
+export const indexTimetable = (columns: TimetableColumns): Timetable => {
+  const { stopIds, tripIds, tripStart, stopTimeStop, departure } = columns;
+  const stopTimeCount = stopTimeStop.length;
+
+  const stopTimeTrip = new Uint32Array(stopTimeCount);
+  for (let trip = 0; trip < tripIds.length; trip++) {
+    stopTimeTrip.fill(trip, tripStart[trip], tripStart[trip + 1]);
+  }
+
+  // Stop times grouped by stop, then ordered by departure
+  const stopDepartureStart = new Uint32Array(stopIds.length + 1);
+  for (let i = 0; i < stopTimeCount; i++) {
+    stopDepartureStart[stopTimeStop[i] + 1]++;
+  }
+  for (let stop = 0; stop < stopIds.length; stop++) {
+    stopDepartureStart[stop + 1] += stopDepartureStart[stop];
+  }
+
+  const stopDepartures = new Uint32Array(stopTimeCount);
+  const next = stopDepartureStart.slice(0, stopIds.length);
+  for (let i = 0; i < stopTimeCount; i++) {
+    stopDepartures[next[stopTimeStop[i]]++] = i;
+  }
+  for (let stop = 0; stop < stopIds.length; stop++) {
+    stopDepartures
+      .subarray(stopDepartureStart[stop], stopDepartureStart[stop + 1])
+      .sort((a, b) => departure[a] - departure[b]);
+  }
+
+  return {
+    ...columns,
+    stopIndex: new Map(stopIds.map((id, i) => [id, i])),
+    tripIndex: new Map(tripIds.map((id, i) => [id, i])),
+    stopTimeTrip,
+    stopDepartureStart,
+    stopDepartures
+  };
+};
+
+/**
+ * Build the timetable of a feed
+ *
+ * Stop times referencing stops or trips that are not in the feed still get an
+ * index, with route and service -1 for unknown trips.
+ *
+ * @param data - Stops, trips and stop time records of the feed
+ * @returns Timetable
+ */
+export const buildTimetable = (
+  data: Pick<GTFSData, 'stops' | 'trips'> & { stopTimes: StopTime[] }
+): Timetable => {
+  const stopIds: string[] = [];
+  const stopIndex = new Map<string, number>();
+  data.stops.forEach(stop => intern(stopIds, stopIndex, stop.stop_id));
+
+  const tripIds: string[] = [];
+  const tripIndex = new Map<string, number>();
+  const routeIds: string[] = [];
+  const routeIndex = new Map<string, number>();
+  const serviceIds: string[] = [];
+  const serviceIndex = new Map<string, number>();
+  const tripRoute: number[] = [];
+  const tripService: number[] = [];
+  const tripBlocks: (string | undefined)[] = [];
+
+  data.trips.forEach(trip => {
+    const t = intern(tripIds, tripIndex, trip.trip_id);
+    tripRoute[t] = intern(routeIds, routeIndex, trip.route_id);
+    tripService[t] = intern(serviceIds, serviceIndex, trip.service_id);
+    tripBlocks[t] = trip.block_id ? `${trip.block_id}|${trip.service_id}` : undefined;
+  });
+
+  const recordTrips = data.stopTimes.map(st => {
+    const t = intern(tripIds, tripIndex, st.trip_id);
+    if (tripRoute[t] === undefined) {
+      tripRoute[t] = -1;
+      tripService[t] = -1;
+    }
+    return t;
+  });
+
+  // Group the stop time records by trip
+  const tripCount = tripIds.length;
+  const tripStart = new Uint32Array(tripCount + 1);
+  recordTrips.forEach(t => tripStart[t + 1]++);
+  for (let t = 0; t < tripCount; t++) {
+    tripStart[t + 1] += tripStart[t];
+  }
+
+  const order = new Uint32Array(recordTrips.length);
+  const next = tripStart.slice(0, tripCount);
+  recordTrips.forEach((t, record) => {
+    order[next[t]++] = record;
+  });
+
+  // Order each trip by stop sequence and convert its times
+  const stopTimeStop = new Uint32Array(order.length);
+  const arrivalSeconds = new Float64Array(order.length);
+  const departureSeconds = new Float64Array(order.length);
+  const pickupType = new Uint8Array(order.length);
+  const dropOffType = new Uint8Array(order.length);
+
+  for (let t = 0; t < tripCount; t++) {
+    const start = tripStart[t];
+    const end = tripStart[t + 1];
+    order
+      .subarray(start, end)
+      .sort((a, b) => Number(data.stopTimes[a].stop_sequence) - Number(data.stopTimes[b].stop_sequence));
+
+    for (let i = start; i < end; i++) {
+      const st = data.stopTimes[order[i]];
+      stopTimeStop[i] = intern(stopIds, stopIndex, st.stop_id);
+      arrivalSeconds[i] = parseTimeToSeconds(st.arrival_time);
+      departureSeconds[i] = parseTimeToSeconds(st.departure_time);
+      pickupType[i] = Number(st.pickup_type) || 0;
+      dropOffType[i] = Number(st.drop_off_type) || 0;
+    }
+
+    interpolateMissingTimes(arrivalSeconds, departureSeconds, start, end);
+  }
+
+  const arrival = Int32Array.from(arrivalSeconds, Math.round);
+  const departure = Int32Array.from(departureSeconds, Math.round);
+
+  return indexTimetable({
+    stopIds,
+    tripIds,
+    routeIds,
+    serviceIds,
+    tripRoute: Int32Array.from(tripRoute),
+    tripService: Int32Array.from(tripService),
+    tripTimesExact: new Uint8Array(tripCount).fill(1),
+    tripNextInBlock: linkBlocks(tripBlocks, tripStart, stopTimeStop, arrival, departure),
+    tripStart,
+    stopTimeStop,
+    arrival,
+    departure,
+    pickupType,
+    dropOffType
+  });
+};
+
+/**
+ * Find the first departure from a stop at or after a time
+ *
+ * @param timetable - Timetable to search
+ * @param stop - Stop index
+ * @param time - Earliest departure in seconds
+ * @returns Position in `stopDepartures`; equals the stop's end offset if there is none
+ */
+export const findFirstDeparture = (
+  timetable: Timetable,
+  stop: number,
+  time: number
+): number => {
+  const { stopDepartures, departure } = timetable;
+  let low = timetable.stopDepartureStart[stop];
+  let high = timetable.stopDepartureStart[stop + 1];
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (departure[stopDepartures[mid]] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+};
+
+/**
+ * Reverse a timetable in time
+ *
+ * Every trip runs backwards, and times are negated with arrival and departure
+ * swapped, as are pickup and drop-off types. Blocks run backwards too: each
+ * trip continues as the trip that continued as it. An earliest-arrival search
+ * on the reversed timetable finds the latest departure that still reaches the
+ * origin in time, as a negative time.
+ *
+ * @param timetable - Timetable to reverse
+ * @returns Reversed timetable with the same stop and trip indices
+ */
+export const reverseTimetable = (timetable: Timetable): Timetable => {
+  const { tripStart, stopTimeStop, arrival, departure } = timetable;
+  const stopTimeCount = stopTimeStop.length;
+
+  const reversedStops = new Uint32Array(stopTimeCount);
+  const reversedArrival = new Int32Array(stopTimeCount);
+  const reversedDeparture = new Int32Array(stopTimeCount);
+  const reversedPickup = new Uint8Array(stopTimeCount);
+  const reversedDropOff = new Uint8Array(stopTimeCount);
+  const reversedNextInBlock = new Int32Array(timetable.tripIds.length).fill(-1);
+  timetable.tripNextInBlock.forEach((next, trip) => {
+    if (next !== -1) reversedNextInBlock[next] = trip;
+  });
+
+  for (let trip = 0; trip < timetable.tripIds.length; trip++) {
+    const start = tripStart[trip];
+    const end = tripStart[trip + 1];
+
+    for (let i = start; i < end; i++) {
+      const j = end - 1 - (i - start);
+      reversedStops[i] = stopTimeStop[j];
+      reversedArrival[i] = -departure[j];
+      reversedDeparture[i] = -arrival[j];
+      reversedPickup[i] = timetable.dropOffType[j];
+      reversedDropOff[i] = timetable.pickupType[j];
+    }
+  }
+
+  return indexTimetable({
+    stopIds: timetable.stopIds,
+    tripIds: timetable.tripIds,
+    routeIds: timetable.routeIds,
+    serviceIds: timetable.serviceIds,
+    tripRoute: timetable.tripRoute,
+    tripService: timetable.tripService,
+    tripTimesExact: timetable.tripTimesExact,
+    tripNextInBlock: reversedNextInBlock,
+    tripStart,
+    stopTimeStop: reversedStops,
+    arrival: reversedArrival,
+    departure: reversedDeparture,
+    pickupType: reversedPickup,
+    dropOffType: reversedDropOff
+  });
+};
@@ -0,0 +1,290 @@
+/**
+ * Transfer model: rules from transfers.txt and walking footpaths between stops
+ *
+ * Footpaths are generated between all stops within a radius of each other, and
+ * between all platforms of a station, using straight-line distance and a walking
+ * speed. Stop-level rules from transfers.txt then override them: minimum transfer
+ * times replace the walking time, and forbidden transfers remove the connection.
+ */
+import { Stop, Transfer } from '@/types/gtfs';
+import { Footpath, StationIndex, TransferModel, TransferOptions } from './gtfsTypes';
+import { haversineDistance } from './geoUtils';
+
+/**
+ * Default footpath generation options
+ */
+export const DEFAULT_TRANSFER_OPTIONS: TransferOptions = {
+  footpathRadiusMeters: 400,
+  walkingSpeedKmh: 4.5
+};
+
+/**
+ * Approximate length of one degree of latitude in meters
+ */
+export const METERS_PER_DEGREE = 111320;
+
+/**
+ * Build the key used for stop pairs
+ *
+ * @param fromStopId - Origin stop ID
+ * @param toStopId - Destination stop ID
+ * @returns Combined key
+ */
+const pairKey = (fromStopId: string, toStopId: string): string => `${fromStopId}|${toStopId}`;
+
+/**
+ * Convert a walking distance into minutes
+ *
+ * @param distanceMeters - Distance in meters
+ * @param walkingSpeedKmh - Walking speed in km/h
+ * @returns Walking time in minutes
+ */
+export const calculateWalkingTime = (
+  distanceMeters: number,
+  walkingSpeedKmh: number
+): number => {
+  return (distanceMeters / 1000 / walkingSpeedKmh) * 60;
+};
+
+/**
+ * Generate footpaths between all stops within a radius of each other
+ *
+ * Stops are bucketed into a grid with cells the size of the radius, so only
+ * neighbouring cells have to be compared.
+ *
+ * @param stops - Stops to connect
+ * @param options - Footpath generation options
+ * @returns Map of footpaths keyed by "from|to"
+ */
+const generateFootpaths = (
+  stops: Stop[],
+  options: TransferOptions
+): Map<string, Footpath> => {
+  const { footpathRadiusMeters, walkingSpeedKmh } = options;
+  const footpaths = new Map<string, Footpath>();
+  if (stops.length === 0 || footpathRadiusMeters <= 0) return footpaths;
+
+  const referenceLat = stops[0].stop_lat * Math.PI / 180;
+  const cellLat = footpathRadiusMeters / METERS_PER_DEGREE;
+  const cellLon = footpathRadiusMeters / (METERS_PER_DEGREE * Math.cos(referenceLat));
+
+  const grid = new Map<string, Stop[]>();
+  const cellOf = (stop: Stop) => [
+    Math.floor(stop.stop_lat / cellLat),
+    Math.floor(stop.stop_lon / cellLon)
+  ];
+
+  stops.forEach(stop => {
+    const [row, col] = cellOf(stop);
+    const key = `${row}|${col}`;
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(stop);
+    } else {
+      grid.set(key, [stop]);
+    }
+  });
+
+  stops.forEach(stop => {
+    const [row, col] = cellOf(stop);
+
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        grid.get(`${row + dRow}|${col + dCol}`)?.forEach(other => {
+          if (other.stop_id === stop.stop_id) return;
+
+          const distance = haversineDistance(stop.stop_lat, stop.stop_lon, other.stop_lat, other.stop_lon);
+          if (distance <= footpathRadiusMeters) {
+            footpaths.set(pairKey(stop.stop_id, other.stop_id), {
+              fromStopId: stop.stop_id,
+              toStopId: other.stop_id,
+              duration: calculateWalkingTime(distance, walkingSpeedKmh),
+              distance
+            });
+          }
+        });
+      }
+    }
+  });
+
+  return footpaths;
+};
+
+/**
+ * Connect every pair of platforms of the same station, however far apart
+ *
+ * @param footpaths - Footpaths keyed by "from|to", extended in place
+ * @param stations - Stations and their platforms
+ * @param walkingSpeedKmh - Walking speed in km/h
+ */
+const addStationFootpaths = (
+  footpaths: Map<string, Footpath>,
+  stations: StationIndex,
+  walkingSpeedKmh: number
+) => {
+  stations.platforms.forEach(platforms => {
+    platforms.forEach(from => {
+      platforms.forEach(to => {
+        if (from.stop_id === to.stop_id) return;
+
+        const distance = haversineDistance(from.stop_lat, from.stop_lon, to.stop_lat, to.stop_lon);
+        footpaths.set(pairKey(from.stop_id, to.stop_id), {
+          fromStopId: from.stop_id,
+          toStopId: to.stop_id,
+          duration: calculateWalkingTime(distance, walkingSpeedKmh),
+          distance
+        });
+      });
+    });
+  });
+};
+
+/**
+ * Build the transfer model for a feed
+ *
+ * Only stop-level rules from transfers.txt are applied; rules restricted to
+ * specific routes or trips are ignored. A rule naming a station applies to all
+ * of its platforms, so a station's minimum transfer time sets the time to change
+ * within and between its platforms. Rules naming platforms take precedence.
+ *
+ * @param stops - Stops of the feed
+ * @param transfers - Rules from transfers.txt
+ * @param options - Footpath generation options
+ * @param stations - Stations and their platforms (no station handling when omitted)
+ * @returns Transfer model
+ */
+export const buildTransferModel = (
+  stops: Stop[],
+  transfers: Transfer[] = [],
+  options: TransferOptions = DEFAULT_TRANSFER_OPTIONS,
+  stations?: StationIndex
+): TransferModel => {
+  const footpathsByPair = generateFootpaths(stops, options);
+  const minTransferTimes = new Map<string, number>();
+  const forbiddenTransfers = new Set<string>();
+  const stopsById = new Map(stops.map(stop => [stop.stop_id, stop]));
+
+  if (stations) addStationFootpaths(footpathsByPair, stations, options.walkingSpeedKmh);
+
+  // Platforms a rule's stop stands for
+  const expand = (stopId: string): string[] =>
+    stations?.platforms.get(stopId)?.map(platform => platform.stop_id) ?? [stopId];
+  const namesStation = (transfer: Transfer) =>
+    !!stations && (stations.platforms.has(transfer.from_stop_id) || stations.platforms.has(transfer.to_stop_id));
+
+  // Station rules first, so rules for single platforms override them
+  const stopRules = transfers.filter(transfer =>
+    !transfer.from_route_id && !transfer.to_route_id && !transfer.from_trip_id && !transfer.to_trip_id
+  );
+  const rules = [
+    ...stopRules.filter(namesStation),
+    ...stopRules.filter(transfer => !namesStation(transfer))
+  ].flatMap(transfer =>
+    expand(transfer.from_stop_id).flatMap(fromStopId =>
+      expand(transfer.to_stop_id).map(toStopId => ({ ...transfer, from_stop_id: fromStopId, to_stop_id: toStopId }))
+    )
+  );
+
+  rules.forEach(transfer => {
+    const { from_stop_id: fromStopId, to_stop_id: toStopId } = transfer;
+    const key = pairKey(fromStopId, toStopId);
+
+    if (transfer.transfer_type === '3') {
+      forbiddenTransfers.add(key);
+      footpathsByPair.delete(key);
+      return;
+    }
+    forbiddenTransfers.delete(key);
+
+    const minTransferTime = transfer.transfer_type === '2' && transfer.min_transfer_time
+      ? Number(transfer.min_transfer_time) / 60
+      : null;
+
+    if (fromStopId === toStopId) {
+      minTransferTimes.set(fromStopId, minTransferTime ?? 0);
+      return;
+    }
+
+    // Explicit transfers are always walkable, even beyond the footpath radius
+    const from = stopsById.get(fromStopId);
+    const to = stopsById.get(toStopId);
+    if (!from || !to) return;
+
+    const distance = haversineDistance(from.stop_lat, from.stop_lon, to.stop_lat, to.stop_lon);
+
+    footpathsByPair.set(key, {
+      fromStopId,
+      toStopId,
+      duration: minTransferTime ?? calculateWalkingTime(distance, options.walkingSpeedKmh),
+      distance
+    });
+  });
+
+  const footpaths = new Map<string, Footpath[]>();
+  footpathsByPair.forEach(footpath => {
+    const outgoing = footpaths.get(footpath.fromStopId);
+    if (outgoing) {
+      outgoing.push(footpath);
+    } else {
+      footpaths.set(footpath.fromStopId, [footpath]);
+    }
+  });
+
+  return { footpaths, minTransferTimes, forbiddenTransfers };
+};
+
+/**
+ * Get the time needed to change vehicles at a stop
+ *
+ * @param model - Transfer model
+ * @param stopId - Stop ID
+ * @returns Minimum transfer time in minutes, or null if changing is forbidden
+ */
+export const getStopTransferTime = (
+  model: TransferModel,
+  stopId: string
+): number | null => {
+  if (model.forbiddenTransfers.has(pairKey(stopId, stopId))) return null;
+  return model.minTransferTimes.get(stopId) ?? 0;
+};
+
+/**
+ * Get the footpaths leaving a stop
+ *
+ * @param model - Transfer model
+ * @param stopId - Stop ID
+ * @returns Outgoing footpaths
+ */
+export const getFootpaths = (
+  model: TransferModel,
+  stopId: string
+): Footpath[] => {
+  return model.footpaths.get(stopId) || [];
+};
+
+/**
+ * Reverse the direction of all footpaths, for routing backwards in time
+ *
+ * Minimum transfer times and forbidden transfers are kept; routing only uses
+ * the forbidden transfers within a stop, which read the same in both directions.
+ *
+ * @param model - Transfer model
+ * @returns Transfer model with every footpath leading the other way
+ */
+export const reverseTransferModel = (model: TransferModel): TransferModel => {
+  const footpaths = new Map<string, Footpath[]>();
+
+  model.footpaths.forEach(outgoing => {
+    outgoing.forEach(footpath => {
+      const reversed = { ...footpath, fromStopId: footpath.toStopId, toStopId: footpath.fromStopId };
+      const incoming = footpaths.get(reversed.fromStopId);
+      if (incoming) {
+        incoming.push(reversed);
+      } else {
+        footpaths.set(reversed.fromStopId, [reversed]);
+      }
+    });
+  });
+
+  return { ...model, footpaths };
+};
@@ -3,19 +3,78 @@
  * Isochrone calculator - Main module for calculating time-based accessibility zones
  * 
  * This module orchestrates the isochrone calculation process by:
- * 1. Taking a transit stop and time thresholds as inputs
- * 2. Generating simulated points around the stop
- * 3. Calculating isochrones for each time threshold
- * 4. Adding visualization properties to the results
+ * 1. Taking a transit stop, the stops reached from it by routing and time thresholds as inputs
+ * 2. Walking on from every reached stop for the time left, along the streets of a loaded
+ *    street network or in straight lines, merging the areas per threshold
+ * 3. Adding visualization properties to the results
+ * 
+ * Simulated isochrones, spreading at a fixed speed without the timetable, remain
+ * available as an explicit fallback.
  */
 import * as turf from '@turf/turf';
 import { Stop } from '@/types/gtfs';
 import { generateSimulatedPoints } from './isochroneUtils/pointGeneration';
-import { calculateIsochroneForThreshold, getColorForTime } from './isochroneUtils/isochroneGenerator';
-import { IsochroneOptions } from './isochroneUtils/types';
+import {
+  calculateIsochroneForThreshold,
+  calculateNetworkIsochroneForThreshold,
+  calculateStreetIsochroneForThreshold,
+  getColorForTime,
+  walkStreetsFromStops
+} from './isochroneUtils/isochroneGenerator';
+import { IsochroneOptions, NetworkIsochroneOptions, ReachedStop } from './isochroneUtils/types';
+
+/**
+ * Calculate isochrones from the stops reached by routing
+ * 
+ * @param stop - Transit stop the isochrones start from (or, arriving by, lead to)
+ * @param reachedStops - Other stops reached, with their travel times
+ * @param timeThresholds - Array of time thresholds in minutes
+ * @param options - Walking speed, longest walk from a stop and the streets to walk along
+ * @returns Array of GeoJSON features representing isochrones, largest first
+ */
+export const calculateNetworkIsochrones = (
+  stop: Stop,
+  reachedStops: ReachedStop[],
+  timeThresholds: number[],
+  options: NetworkIsochroneOptions
+): GeoJSON.Feature[] => {
+  // The stop itself is reached at once
+  const stops = [{ stop, travelTime: 0 }, ...reachedStops];
+  const isochrones: GeoJSON.Feature[] = [];
+  
+  // Sort time thresholds in descending order for proper rendering order
+  const sortedThresholds = [...timeThresholds].sort((a, b) => b - a);
+  
+  // One walk over the streets serves every threshold
+  const reach = options.streets && sortedThresholds.length > 0
+    ? walkStreetsFromStops(stops, sortedThresholds[0], options)
+    : null;
+  
+  for (const threshold of sortedThresholds) {
+    const isochrone = reach
+      ? calculateStreetIsochroneForThreshold(reach, threshold, options)
+      : calculateNetworkIsochroneForThreshold(stops, threshold, options);
+    
+    if (isochrone) {
+      isochrones.push({
+        ...isochrone,
+        properties: {
+          stop_id: stop.stop_id,
+          stop_name: stop.stop_name,
+          time: threshold,
+          color: getColorForTime(threshold),
+        }
+      });
+    }
+  }
+  
+  return isochrones;
+};
 
 /**
- * Calculate isochrones (reachable areas within time thresholds) from a transit stop
+ * Calculate simulated isochrones (reachable areas within time thresholds) from a transit stop
+ * 
+ * Points spread from the stop at a fixed average speed, so the timetable plays no part.
  * 
  * @param stop - Transit stop to calculate isochrones from
  * @param timeThresholds - Array of time thresholds in minutes
@@ -64,6 +123,27 @@ export const calculateIsochrone = async (
   return isochrones;
 };
 
+/**
+ * Create point features for the stops reached by routing
+ * 
+ * @param reachedStops - Stops reached from the origin with their travel times
+ * @returns Array of GeoJSON point features, one per stop
+ */
+export const createReachedStopFeatures = (
+  reachedStops: ReachedStop[]
+): GeoJSON.Feature[] => {
+  return reachedStops.map(({ stop, travelTime }) => turf.point(
+    [parseFloat(stop.stop_lon.toString()), parseFloat(stop.stop_lat.toString())],
+    {
+      kind: 'reached-stop',
+      stop_id: stop.stop_id,
+      stop_name: stop.stop_name,
+      travelTime,
+      color: getColorForTime(travelTime),
+    }
+  ));
+};
+
 // Re-export utility functions for convenience
 export { findNearestPoints } from './isochroneUtils/pointGeneration';
 export { getColorForTime } from './isochroneUtils/isochroneGenerator';
@@ -4,7 +4,40 @@
  */
 import * as turf from '@turf/turf';
 import { Feature, FeatureCollection, Point, Position } from '@turf/turf';
-import { PointsWithTravelTimeCollection } from './types';
+import { METERS_PER_DEGREE } from '@/utils/gtfsUtils/transferUtils';
+import { walkStreetNetwork } from '@/utils/streetUtils/streetGraph';
+import { WalkSource } from '@/utils/streetUtils/types';
+import { NetworkIsochroneOptions, PointsWithTravelTimeCollection, ReachedStop, StreetReach } from './types';
+
+/**
+ * Polygon or multipolygon area
+ */
+type Area = GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>;
+
+/**
+ * Number of vertices of each walking buffer; few vertices keep merging fast
+ */
+const BUFFER_STEPS = 16;
+
+/**
+ * Side of the grid cells street isochrones are drawn on, in meters
+ */
+const CELL_METERS = 50;
+
+/**
+ * Create a circular buffer around a position
+ * 
+ * @param center - Center coordinates [lon, lat]
+ * @param radiusKm - Radius in kilometers
+ * @returns Polygon approximating the circle
+ */
+const createBuffer = (center: Position, radiusKm: number): Area => {
+  const origin = turf.point(center);
+  const ring = Array.from({ length: BUFFER_STEPS }, (_, i) =>
+    turf.destination(origin, radiusKm, (i * 360) / BUFFER_STEPS).geometry.coordinates
+  );
+  return turf.polygon([[...ring, ring[0]]]);
+};
 
 /**
  * Calculate isochrone for a specific time threshold
@@ -74,6 +107,252 @@ export const calculateIsochroneForThreshold = async (
   }
 };
 
+/**
+ * Merge polygons into one
+ *
+ * Polygons are combined pairwise, round by round, so every union stays small.
+ *
+ * @param polygons - Polygons to merge
+ * @returns Combined polygon, or null if there are none
+ */
+const mergePolygons = (polygons: Area[]): Area | null => {
+  let merged = polygons;
+  
+  while (merged.length > 1) {
+    const next: Area[] = [];
+    for (let i = 0; i < merged.length; i += 2) {
+      if (i + 1 === merged.length) {
+        next.push(merged[i]);
+        continue;
+      }
+      // union accepts multipolygons too, but its typings only declare polygons
+      const union = turf.union(
+        merged[i] as GeoJSON.Feature<GeoJSON.Polygon>,
+        merged[i + 1] as GeoJSON.Feature<GeoJSON.Polygon>
+      );
+      next.push(union ?? merged[i]);
+    }
+    merged = next;
+  }
+  
+  return merged[0] ?? null;
+};
+
+/**
+ * Create circles of the distance walkable in a straight line from stops in the time left
+ * 
+ * @param reachedStops - Stops with their travel times
+ * @param timeThreshold - Time threshold in minutes
+ * @param options - Walking speed and longest walk
+ * @returns One circle per stop reached before the threshold
+ */
+const createWalkingBuffers = (
+  reachedStops: ReachedStop[],
+  timeThreshold: number,
+  options: NetworkIsochroneOptions
+): Area[] => {
+  const { walkingSpeedKmh, maxWalkMeters } = options;
+  
+  return reachedStops
+    .map(({ stop, travelTime }) => ({
+      stop,
+      radiusKm: Math.min(walkingSpeedKmh * (timeThreshold - travelTime) / 60, maxWalkMeters / 1000)
+    }))
+    .filter(({ radiusKm }) => radiusKm > 0)
+    .map(({ stop, radiusKm }) => createBuffer([stop.stop_lon, stop.stop_lat], radiusKm));
+};
+
+/**
+ * Calculate the area reached within a time threshold from the stops reached by routing
+ * 
+ * Every stop reached before the threshold gets a circle of the distance walkable
+ * in the remaining time, at most the longest walk allowed, and the circles are merged.
+ * 
+ * @param reachedStops - Stops with their travel times, including the origin
+ * @param timeThreshold - Time threshold in minutes
+ * @param options - Walking speed and longest walk
+ * @returns GeoJSON feature representing the isochrone area, or null if no stop is reached in time
+ */
+export const calculateNetworkIsochroneForThreshold = (
+  reachedStops: ReachedStop[],
+  timeThreshold: number,
+  options: NetworkIsochroneOptions
+): Area | null => mergePolygons(createWalkingBuffers(reachedStops, timeThreshold, options));
+
+/**
+ * Walk over the streets from the stops reached by routing
+ * 
+ * Every stop starts a walk at its travel time from the nearest street node, after
+ * walking there in a straight line. Arrivals at the nodes are spread along the
+ * streets between them onto a grid of cells, and every cell passes its time on
+ * to its neighbours, so the areas reach a cell beyond the streets (into squares
+ * and parks) without crossing rivers or rail yards.
+ * 
+ * @param reachedStops - Stops with their travel times, including the origin
+ * @param maxTime - Largest time threshold in minutes
+ * @param options - Walking speed, longest walk and the streets to walk along
+ * @returns Arrival per grid cell, and the stops too far from the streets
+ */
+export const walkStreetsFromStops = (
+  reachedStops: ReachedStop[],
+  maxTime: number,
+  options: NetworkIsochroneOptions
+): StreetReach => {
+  const { walkingSpeedKmh, maxWalkMeters, streets } = options;
+  const { network, locateNode } = streets;
+  const metersPerMinute = walkingSpeedKmh * 1000 / 60;
+  
+  const sources: WalkSource[] = [];
+  const offStreetStops: ReachedStop[] = [];
+  reachedStops.forEach(reached => {
+    const nearest = locateNode(reached.stop.stop_lat, reached.stop.stop_lon);
+    if (nearest) {
+      sources.push({
+        node: nearest.node,
+        time: reached.travelTime + nearest.distance / metersPerMinute,
+        walked: nearest.distance
+      });
+    } else {
+      offStreetStops.push(reached);
+    }
+  });
+  
+  const times = walkStreetNetwork(network, sources, walkingSpeedKmh, maxTime, maxWalkMeters);
+  const { nodeLats, nodeLons, edgeStart, edgeTargets, edgeLengths } = network;
+  
+  // Grid around the reached nodes and the streets leaving them, with a free cell on every side
+  let south = Infinity, north = -Infinity, west = Infinity, east = -Infinity;
+  const extend = (node: number) => {
+    south = Math.min(south, nodeLats[node]);
+    north = Math.max(north, nodeLats[node]);
+    west = Math.min(west, nodeLons[node]);
+    east = Math.max(east, nodeLons[node]);
+  };
+  times.forEach((time, node) => {
+    if (time === Infinity) return;
+    extend(node);
+    for (let edge = edgeStart[node]; edge < edgeStart[node + 1]; edge++) {
+      if (times[edgeTargets[edge]] === Infinity) extend(edgeTargets[edge]);
+    }
+  });
+  if (south === Infinity) {
+    return { south: 0, west: 0, cellLat: 1, cellLon: 1, columns: 0, cellTimes: new Float64Array(0), offStreetStops };
+  }
+  
+  const cellLat = CELL_METERS / METERS_PER_DEGREE;
+  const cellLon = CELL_METERS / (METERS_PER_DEGREE * Math.cos((south + north) / 2 * Math.PI / 180));
+  south -= cellLat;
+  west -= cellLon;
+  const rows = Math.ceil((north - south) / cellLat) + 2;
+  const columns = Math.ceil((east - west) / cellLon) + 2;
+  const cellTimes = new Float64Array(rows * columns).fill(Infinity);
+  
+  const reachCell = (lat: number, lon: number, time: number) => {
+    const cell = Math.floor((lat - south) / cellLat) * columns + Math.floor((lon - west) / cellLon);
+    if (time < cellTimes[cell]) cellTimes[cell] = time;
+  };
+  
+  // Points along every street with a reached end, at most half a cell apart
+  for (let from = 0; from < times.length; from++) {
+    if (times[from] === Infinity) continue;
+    
+    for (let edge = edgeStart[from]; edge < edgeStart[from + 1]; edge++) {
+      const to = edgeTargets[edge];
+      if (times[to] !== Infinity && to < from) continue;
+      
+      const length = edgeLengths[edge];
+      const steps = Math.max(1, Math.ceil(length / (CELL_METERS / 2)));
+      for (let step = 0; step <= steps; step++) {
+        const fraction = step / steps;
+        const time = Math.min(
+          times[from] + fraction * length / metersPerMinute,
+          times[to] + (1 - fraction) * length / metersPerMinute
+        );
+        if (time <= maxTime) {
+          reachCell(
+            nodeLats[from] + fraction * (nodeLats[to] - nodeLats[from]),
+            nodeLons[from] + fraction * (nodeLons[to] - nodeLons[from]),
+            time
+          );
+        }
+      }
+    }
+  }
+  
+  // Step off the streets into the neighbouring cells
+  const streetTimes = cellTimes.slice();
+  const straight = CELL_METERS / metersPerMinute;
+  const diagonal = straight * Math.SQRT2;
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const time = streetTimes[row * columns + column];
+      if (time === Infinity) continue;
+      
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (let dColumn = -1; dColumn <= 1; dColumn++) {
+          const neighbour = (row + dRow) * columns + column + dColumn;
+          const arrival = time + (dRow !== 0 && dColumn !== 0 ? diagonal : straight);
+          if (arrival <= maxTime && arrival < cellTimes[neighbour]) cellTimes[neighbour] = arrival;
+        }
+      }
+    }
+  }
+  
+  return { south, west, cellLat, cellLon, columns, cellTimes, offStreetStops };
+};
+
+/**
+ * Calculate the area reached within a time threshold by walking the streets
+ * 
+ * Cells reached in time are joined into rectangles, running along each row and
+ * over the following rows with the same run, and merged with the straight-line
+ * circles of stops away from the streets.
+ * 
+ * @param reach - Walk over the streets from the reached stops
+ * @param timeThreshold - Time threshold in minutes
+ * @param options - Walking speed and longest walk
+ * @returns GeoJSON feature representing the isochrone area, or null if nothing is reached in time
+ */
+export const calculateStreetIsochroneForThreshold = (
+  reach: StreetReach,
+  timeThreshold: number,
+  options: NetworkIsochroneOptions
+): Area | null => {
+  const { south, west, cellLat, cellLon, columns, cellTimes } = reach;
+  const rows = columns > 0 ? cellTimes.length / columns : 0;
+  const rectangles: Area[] = [];
+  
+  // Runs of reached cells still growing northwards, by their first and last column
+  let open = new Map<string, { firstRow: number; first: number; last: number }>();
+  const close = (run: { firstRow: number; first: number; last: number }, endRow: number) => {
+    rectangles.push(turf.bboxPolygon([
+      west + run.first * cellLon,
+      south + run.firstRow * cellLat,
+      west + (run.last + 1) * cellLon,
+      south + endRow * cellLat
+    ]));
+  };
+  
+  for (let row = 0; row <= rows; row++) {
+    const next = new Map<string, { firstRow: number; first: number; last: number }>();
+    
+    for (let column = 0; row < rows && column < columns; column++) {
+      if (cellTimes[row * columns + column] > timeThreshold) continue;
+      
+      const first = column;
+      while (column + 1 < columns && cellTimes[row * columns + column + 1] <= timeThreshold) column++;
+      const key = `${first}|${column}`;
+      next.set(key, open.get(key) ?? { firstRow: row, first, last: column });
+      open.delete(key);
+    }
+    
+    open.forEach(run => close(run, row));
+    open = next;
+  }
+  
+  return mergePolygons([...rectangles, ...createWalkingBuffers(reach.offStreetStops, timeThreshold, options)]);
+};
+
 /**
  * Get a color based on the time threshold
  * 
@@ -4,6 +4,7 @@
  */
 import { Feature, FeatureCollection, Point } from '@turf/turf';
 import { Stop } from '@/types/gtfs';
+import { NodeLocator, StreetNetwork } from '@/utils/streetUtils/types';
 
 /**
  * Point with travel time information
@@ -21,7 +22,90 @@ export interface PointWithTravelTime extends Feature<Point> {
 export type PointsWithTravelTimeCollection = FeatureCollection<Point, { travelTime?: number; [key: string]: any }>;
 
 /**
- * Isochrone generation options
+ * Transit stop reached by routing, with its travel time from the origin
+ */
+export interface ReachedStop {
+  stop: Stop;
+  travelTime: number; // in minutes
+}
+
+/**
+ * How isochrone areas are drawn
+ * - `network`: walking buffers around the stops reached by routing
+ * - `simulated`: hulls around points spreading from the origin at a fixed speed, ignoring the timetable
+ */
+export type IsochroneMode = 'network' | 'simulated';
+
+/**
+ * Options for isochrones built from reached stops
+ */
+export interface NetworkIsochroneOptions {
+  /**
+   * Walking speed in km/h
+   */
+  walkingSpeedKmh: number;
+  
+  /**
+   * Longest walk from a stop in meters (Infinity for no limit)
+   */
+  maxWalkMeters: number;
+  
+  /**
+   * Streets to walk along (null walks in straight lines)
+   */
+  streets: IsochroneStreets | null;
+}
+
+/**
+ * Street network walked by isochrones, with a lookup of the node nearest to a stop
+ */
+export interface IsochroneStreets {
+  network: StreetNetwork;
+  locateNode: NodeLocator;
+}
+
+/**
+ * Earliest arrivals of a walk over the streets from the reached stops, on a grid of cells
+ */
+export interface StreetReach {
+  /**
+   * Latitude of the southern edge of the grid
+   */
+  south: number;
+  
+  /**
+   * Longitude of the western edge of the grid
+   */
+  west: number;
+  
+  /**
+   * Cell height in degrees of latitude
+   */
+  cellLat: number;
+  
+  /**
+   * Cell width in degrees of longitude
+   */
+  cellLon: number;
+  
+  /**
+   * Number of cell columns
+   */
+  columns: number;
+  
+  /**
+   * Earliest arrival in minutes per cell, row by row from the south (Infinity if not reached)
+   */
+  cellTimes: Float64Array;
+  
+  /**
+   * Stops too far from any street, walked from in straight lines
+   */
+  offStreetStops: ReachedStop[];
+}
+
+/**
+ * Simulated isochrone generation options
  */
 export interface IsochroneOptions {
   /**
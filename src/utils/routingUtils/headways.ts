@@ -0,0 +1,57 @@
+/**
+ * Headways per stop and route
+ *
+ * How long riders wait for a vehicle depends on how often it runs at the stop
+ * where they board. Headways are derived from the departures of a route at a
+ * stop, counting only the trips that can be used on the travel date.
+ */
+import { Timetable } from '@/utils/gtfsUtils/gtfsTypes';
+
+/**
+ * Create a cached headway lookup for a timetable
+ *
+ * The headway of a route at a stop is the median gap between its consecutive
+ * departures there over the service day. Arrivals at the last stop of a trip
+ * and stop times without pickup are not departures and are skipped.
+ *
+ * @param timetable - Timetable to derive the headways from
+ * @param isUsable - Whether a trip can be used on the travel date
+ * @returns Function returning the headway of a route at a stop in minutes (NaN with fewer than two departures)
+ */
+export const createHeadwayLookup = (
+  timetable: Timetable,
+  isUsable: (trip: number) => boolean
+): ((stop: number, route: number) => number) => {
+  const { stopDepartures, stopDepartureStart, stopTimeTrip, tripStart, tripRoute, departure, pickupType } = timetable;
+  const routeCount = timetable.routeIds.length;
+  const headways = new Map<number, number>();
+
+  return (stop, route) => {
+    const key = stop * routeCount + route;
+    const cached = headways.get(key);
+    if (cached !== undefined) return cached;
+
+    // Departures are already ordered by time at every stop
+    const gaps: number[] = [];
+    let previous = NaN;
+    for (let d = stopDepartureStart[stop]; d < stopDepartureStart[stop + 1]; d++) {
+      const stopTime = stopDepartures[d];
+      const trip = stopTimeTrip[stopTime];
+      if (
+        tripRoute[trip] !== route ||
+        stopTime === tripStart[trip + 1] - 1 ||
+        pickupType[stopTime] === 1 ||
+        !isUsable(trip)
+      ) continue;
+
+      const time = departure[stopTime] / 60;
+      if (time > previous) gaps.push(time - previous);
+      previous = time;
+    }
+
+    gaps.sort((a, b) => a - b);
+    const headway = gaps.length > 0 ? gaps[Math.floor((gaps.length - 1) / 2)] : NaN;
+    headways.set(key, headway);
+    return headway;
+  };
+};
@@ -0,0 +1,174 @@
+/**
+ * Journeys rebuilt from routing results
+ *
+ * Every label of a RAPTOR search records the vehicle that reached it and any
+ * walk after that vehicle. Following these legs back through the rounds gives
+ * the fastest journey to a stop, and to a point on the map when a final walk
+ * from the best nearby stop is added. A vehicle leg that runs through several
+ * trips of a block becomes one leg per trip. Legs carry the actual times, without the
+ * transfer penalties included in the labels.
+ */
+import { Stop } from '@/types/gtfs';
+import { haversineDistance } from '@/utils/gtfsUtils/geoUtils';
+import { calculateWalkingTime } from '@/utils/gtfsUtils/transferUtils';
+import { Journey, JourneyLeg, RaptorNetwork, RoutingResult } from './types';
+
+/**
+ * Rebuild the fastest journey to a stop
+ *
+ * @param network - Route patterns the query ran on
+ * @param result - Result of a single routing query
+ * @param stop - Timetable index of the destination stop
+ * @returns Journey from the origin, or null if the stop was not reached
+ */
+export const reconstructJourney = (
+  network: RaptorNetwork,
+  result: RoutingResult,
+  stop: number
+): Journey | null => {
+  const { stopIds, stopTimeStop, stopTimeTrip, tripIds, tripRoute, routeIds, tripStart, tripNextInBlock, arrival, departure } = network.timetable;
+  const arrivalTime = result.arrivals[stop];
+  if (arrivalTime === Infinity) return null;
+
+  // The round holding the earliest arrival, where the journey uses the fewest vehicles
+  let round = result.roundArrivals.findIndex(arrivals => arrivals[stop] === arrivalTime);
+  if (round === -1) return null;
+
+  // Labels of round k include the penalties of its k - 1 changes
+  const penaltyOf = (k: number) => Math.max(0, k - 1) * result.transferPenalty;
+  const legs: JourneyLeg[] = [];
+  let current = stop;
+  const lastRound = round;
+
+  while (round >= 0) {
+    const { boardStopTimes, alightStopTimes, timeOffsets, walkFrom, walkStarts } = result.roundLegs[round];
+
+    if (walkFrom[current] !== -1) {
+      legs.unshift({
+        mode: 'walk',
+        fromStopId: stopIds[walkFrom[current]],
+        toStopId: stopIds[current],
+        departureTime: walkStarts[current] - penaltyOf(round),
+        arrivalTime: result.roundArrivals[round][current] - penaltyOf(round),
+        stopIds: []
+      });
+    }
+
+    const boardStopTime = boardStopTimes[current];
+    if (boardStopTime === -1) break;
+
+    // The trips ridden, following the block from the boarded trip to the one left
+    const alightStopTime = alightStopTimes[current];
+    const rides: [number, number][] = [];
+    for (let from = boardStopTime, trip = stopTimeTrip[from]; trip !== -1; trip = tripNextInBlock[trip], from = tripStart[trip]) {
+      const to = trip === stopTimeTrip[alightStopTime] ? alightStopTime : tripStart[trip + 1] - 1;
+      rides.push([from, to]);
+      if (to === alightStopTime) break;
+    }
+
+    legs.unshift(...rides.map(([from, to], index): JourneyLeg => {
+      const trip = stopTimeTrip[from];
+      return {
+        mode: 'transit',
+        fromStopId: stopIds[stopTimeStop[from]],
+        toStopId: stopIds[stopTimeStop[to]],
+        departureTime: departure[from] / 60 + timeOffsets[current],
+        arrivalTime: arrival[to] / 60 + timeOffsets[current],
+        tripId: tripIds[trip],
+        routeId: routeIds[tripRoute[trip]],
+        stopIds: Array.from(stopTimeStop.subarray(from, to + 1), s => stopIds[s]),
+        inSeat: index > 0
+      };
+    }));
+
+    current = stopTimeStop[boardStopTime];
+    round--;
+  }
+
+  return {
+    legs,
+    departureTime: result.departureTime,
+    arrivalTime: arrivalTime - penaltyOf(lastRound),
+    transfers: Math.max(0, legs.filter(leg => leg.mode === 'transit' && !leg.inSeat).length - 1)
+  };
+};
+
+/**
+ * Turn a journey found on the time-reversed timetable into forward time
+ *
+ * Legs are put in travel order, each leading the other way, and the negated
+ * times of the reversed timetable become times of the service day again. Staying
+ * on board moves to the leg that now follows the through-running trip.
+ *
+ * @param journey - Journey found by an arrive-by query
+ * @returns The same journey in travel order
+ */
+export const reverseJourney = (journey: Journey): Journey => ({
+  legs: journey.legs.map((leg, index) => ({
+    ...leg,
+    inSeat: journey.legs[index + 1]?.inSeat,
+    fromStopId: leg.toStopId,
+    toStopId: leg.fromStopId,
+    departureTime: -leg.arrivalTime,
+    arrivalTime: -leg.departureTime,
+    stopIds: [...leg.stopIds].reverse()
+  })).reverse(),
+  departureTime: -journey.arrivalTime,
+  arrivalTime: -journey.departureTime,
+  transfers: journey.transfers
+});
+
+/**
+ * Find the fastest journey to a point, ending with a walk from a reached stop
+ *
+ * @param network - Route patterns the query ran on
+ * @param result - Result of a single routing query
+ * @param stops - Stops the journey may end at
+ * @param lat - Latitude of the point
+ * @param lon - Longitude of the point
+ * @param walkingSpeedKmh - Walking speed in km/h
+ * @param maxDuration - Journeys taking longer than this many minutes are ignored
+ * @returns Journey ending at the point, or null if none is fast enough
+ */
+export const findJourneyToPoint = (
+  network: RaptorNetwork,
+  result: RoutingResult,
+  stops: Stop[],
+  lat: number,
+  lon: number,
+  walkingSpeedKmh: number,
+  maxDuration: number
+): Journey | null => {
+  const { stopIndex } = network.timetable;
+  let bestStop = -1;
+  let bestArrival = Infinity;
+  let bestWalk = 0;
+
+  stops.forEach(stop => {
+    const index = stopIndex.get(stop.stop_id);
+    if (index === undefined || result.arrivals[index] === Infinity) return;
+
+    const walk = calculateWalkingTime(haversineDistance(stop.stop_lat, stop.stop_lon, lat, lon), walkingSpeedKmh);
+    const arrivalTime = result.arrivals[index] + walk;
+    if (arrivalTime < bestArrival && arrivalTime - result.departureTime <= maxDuration) {
+      bestStop = index;
+      bestArrival = arrivalTime;
+      bestWalk = walk;
+    }
+  });
+
+  const journey = bestStop === -1 ? null : reconstructJourney(network, result, bestStop);
+  if (!journey) return null;
+
+  journey.legs.push({
+    mode: 'walk',
+    fromStopId: network.timetable.stopIds[bestStop],
+    toStopId: null,
+    departureTime: journey.arrivalTime,
+    arrivalTime: journey.arrivalTime + bestWalk,
+    stopIds: []
+  });
+  journey.arrivalTime += bestWalk;
+
+  return journey;
+};
@@ -0,0 +1,92 @@
+/**
+ * Departure-window profiles (rRAPTOR)
+ *
+ * Travel times depend on when riders leave: just missing a departure on a line
+ * running every 10 minutes adds up to 10 minutes. A profile runs RAPTOR for
+ * every minute of a window, from the latest departure to the earliest, keeping
+ * the labels between runs so each run only has to propagate improvements.
+ */
+import { Timetable, TravelTimeMap } from '@/utils/gtfsUtils/gtfsTypes';
+import { createRaptorState, runRaptorRounds } from './raptor';
+import { ProfileResult, ProfileStatistic, RaptorNetwork, RoutingQuery } from './types';
+
+/**
+ * Percentile of each statistic
+ */
+const STATISTIC_PERCENTILES: Record<ProfileStatistic, number> = {
+  min: 0,
+  median: 0.5,
+  p90: 0.9
+};
+
+/**
+ * Compute travel times for every minute of a departure window
+ *
+ * @param network - Route patterns of the timetable
+ * @param query - Query whose departure time starts the window
+ * @param windowMinutes - Length of the window in minutes
+ * @returns Travel times per stop and departure
+ */
+export const runProfile = (
+  network: RaptorNetwork,
+  query: RoutingQuery,
+  windowMinutes: number
+): ProfileResult => {
+  const stopCount = network.timetable.stopIds.length;
+  const departureTimes = Array.from(
+    { length: Math.floor(windowMinutes) + 1 },
+    (_, minute) => query.departureTime + minute
+  );
+  const travelTimes: ProfileResult['travelTimes'] = new Array(stopCount);
+  const state = createRaptorState(stopCount, query.maxTransfers);
+
+  for (let d = departureTimes.length - 1; d >= 0; d--) {
+    const departureTime = departureTimes[d];
+    runRaptorRounds(network, { ...query, departureTime }, state);
+
+    state.best.forEach((arrivalTime, stop) => {
+      const travelTime = arrivalTime - departureTime;
+      if (travelTime > query.maxDuration) return;
+
+      if (!travelTimes[stop]) {
+        travelTimes[stop] = new Float64Array(departureTimes.length).fill(Infinity);
+      }
+      travelTimes[stop][d] = travelTime;
+    });
+  }
+
+  return { departureTimes, travelTimes };
+};
+
+/**
+ * Summarize a profile into one travel time per stop
+ *
+ * Percentiles use the nearest rank. Departures from which a stop cannot be
+ * reached in time count as infinitely slow, so a stop reached from only a few
+ * departures drops out of the median and 90th percentile.
+ *
+ * @param timetable - Timetable the profile refers to
+ * @param profile - Result of `runProfile`
+ * @param statistic - Statistic to apply
+ * @param maxDuration - Stops with a longer travel time are left out (minutes)
+ * @returns Travel time in minutes to every stop reached
+ */
+export const getProfileTravelTimes = (
+  timetable: Timetable,
+  profile: ProfileResult,
+  statistic: ProfileStatistic,
+  maxDuration: number
+): TravelTimeMap => {
+  const travelTimes: TravelTimeMap = new Map();
+  const count = profile.departureTimes.length;
+  const rank = Math.max(0, Math.ceil(STATISTIC_PERCENTILES[statistic] * count) - 1);
+
+  profile.travelTimes.forEach((stopTravelTimes, stop) => {
+    if (!stopTravelTimes) return;
+
+    const value = stopTravelTimes.slice().sort()[rank];
+    if (value <= maxDuration) travelTimes.set(timetable.stopIds[stop], value);
+  });
+
+  return travelTimes;
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { Frequency, Stop, StopTime, Trip } from '@/types/gtfs';
+import { buildTimetable } from '@/utils/gtfsUtils/timetable';
+import { MINUTES_PER_DAY, parseTimeToMinutes } from '@/utils/gtfsUtils/timeUtils';
+import { DEFAULT_ROUTING_CONSTRAINTS, getTravelTimes, runRaptor } from './raptor';
+import { buildRaptorNetwork, buildReverseRaptorNetwork } from './raptorNetwork';
+import { RoutingQuery } from './types';
+
+// Saturday's night services running past midnight into Sunday: two N1 trips from
+// A to B, an N2 running from A to C every 20 minutes until 02:00, and an N3 vehicle
+// running from A to D and on to E as two trips of one block
+const stops: Stop[] = [
+  { stop_id: 'A', stop_name: 'A', stop_lat: 48.14, stop_lon: 11.56 },
+  { stop_id: 'B', stop_name: 'B', stop_lat: 48.15, stop_lon: 11.58 },
+  { stop_id: 'C', stop_name: 'C', stop_lat: 48.13, stop_lon: 11.54 },
+  { stop_id: 'D', stop_name: 'D', stop_lat: 48.16, stop_lon: 11.55 },
+  { stop_id: 'E', stop_name: 'E', stop_lat: 48.17, stop_lon: 11.53 }
+];
+const trips: Trip[] = [
+  { trip_id: 'N1-early', route_id: 'N1', service_id: 'SAT' },
+  { trip_id: 'N1-late', route_id: 'N1', service_id: 'SAT' },
+  { trip_id: 'N2', route_id: 'N2', service_id: 'SAT' },
+  { trip_id: 'N3-out', route_id: 'N3', service_id: 'SAT', block_id: 'N3' },
+  { trip_id: 'N3-on', route_id: 'N3', service_id: 'SAT', block_id: 'N3' }
+];
+const stopTime = (trip_id: string, stop_id: string, stop_sequence: string, time: string): StopTime => ({
+  trip_id, stop_id, stop_sequence, arrival_time: time, departure_time: time
+});
+const stopTimes: StopTime[] = [
+  stopTime('N1-early', 'A', '1', '24:10:00'),
+  stopTime('N1-early', 'B', '2', '24:25:00'),
+  stopTime('N1-late', 'A', '1', '24:30:00'),
+  stopTime('N1-late', 'B', '2', '24:50:00'),
+  stopTime('N2', 'A', '1', '23:00:00'),
+  stopTime('N2', 'C', '2', '23:15:00'),
+  stopTime('N3-out', 'A', '1', '24:35:00'),
+  stopTime('N3-out', 'D', '2', '24:45:00'),
+  stopTime('N3-on', 'D', '1', '24:48:00'),
+  stopTime('N3-on', 'E', '2', '24:58:00')
+];
+const frequencies: Frequency[] = [
+  { trip_id: 'N2', start_time: '23:00:00', end_time: '26:00:00', headway_secs: '1200', exact_times: '1' }
+];
+const timetable = buildTimetable({ stops, trips, stopTimes });
+const network = buildRaptorNetwork(timetable, frequencies);
+const reverseNetwork = buildReverseRaptorNetwork({ timetable, frequencies });
+
+const SATURDAY_SERVICES = new Set(['SAT']);
+
+// Sunday query: Sunday's own services, and Saturday's trips shifted back by a day
+const createQuery = (stopId: string, time: string, overrides: Partial<RoutingQuery> = {}): RoutingQuery => ({
+  origins: [{ stopId, duration: 0 }],
+  departureTime: parseTimeToMinutes(time),
+  ...DEFAULT_ROUTING_CONSTRAINTS,
+  maxDuration: 120,
+  activeServiceIds: new Set(['SUN']),
+  previousDay: { serviceIds: SATURDAY_SERVICES, offset: -MINUTES_PER_DAY },
+  allowedRouteIds: null,
+  restrictions: null,
+  transferModel: null,
+  ...overrides
+});
+
+// Arrive-by query on the reversed timetable, whose negated times move the previous day forward
+const createArriveByQuery = (stopId: string, time: string, overrides: Partial<RoutingQuery> = {}): RoutingQuery =>
+  createQuery(stopId, time, {
+    departureTime: -parseTimeToMinutes(time),
+    previousDay: { serviceIds: SATURDAY_SERVICES, offset: MINUTES_PER_DAY },
+    ...overrides
+  });
+
+describe('previous-day trips', () => {
+  it('boards a trip listed at 24:30 at 00:30 of the next day', () => {
+    const travelTimes = getTravelTimes(timetable, runRaptor(network, createQuery('A', '00:20:00')));
+    expect(travelTimes.get('B')).toBe(30);
+  });
+
+  it('misses the 24:10 trip when leaving at 00:20', () => {
+    const result = runRaptor(network, createQuery('A', '00:20:00'));
+    expect(result.arrivals[timetable.stopIndex.get('B')]).toBe(parseTimeToMinutes('00:50:00'));
+  });
+
+  it('catches the 24:10 trip when leaving at 00:05', () => {
+    const travelTimes = getTravelTimes(timetable, runRaptor(network, createQuery('A', '00:05:00')));
+    expect(travelTimes.get('B')).toBe(20);
+  });
+
+  it('ignores trips whose service does not run the day before', () => {
+    const query = createQuery('A', '00:20:00', {
+      previousDay: { serviceIds: new Set(['FRI']), offset: -MINUTES_PER_DAY }
+    });
+    expect(getTravelTimes(timetable, runRaptor(network, query)).has('B')).toBe(false);
+  });
+
+  it('ignores the day before without a previous service day', () => {
+    const query = createQuery('A', '00:20:00', { previousDay: null });
+    expect(getTravelTimes(timetable, runRaptor(network, query)).has('B')).toBe(false);
+  });
+
+  it('boards a frequency template of the day before still running after midnight', () => {
+    // Vehicles leave at 24:00, 24:20, 24:40 and so on, so the next one after 00:25 is at 00:40
+    const result = runRaptor(network, createQuery('A', '00:25:00'));
+    expect(result.arrivals[timetable.stopIndex.get('C')]).toBe(parseTimeToMinutes('00:55:00'));
+    expect(getTravelTimes(timetable, result, 'exact').get('C')).toBe(15);
+  });
+
+  it('leaves out frequency instances after the end of the template', () => {
+    // The last vehicle leaves at 25:40, one before the end time of 26:00
+    const result = runRaptor(network, createQuery('A', '01:45:00'));
+    expect(result.arrivals[timetable.stopIndex.get('C')]).toBe(Infinity);
+  });
+
+  it('rides through to the next trip of a block of the day before', () => {
+    // Without any change, E is only reached by staying on board at D
+    const result = runRaptor(network, createQuery('A', '00:30:00', { maxTransfers: 0 }));
+    expect(result.arrivals[timetable.stopIndex.get('E')]).toBe(parseTimeToMinutes('00:58:00'));
+  });
+});
+
+describe('previous-day trips arriving by', () => {
+  it('takes the latest trip of the day before arriving in time', () => {
+    // Arriving by 00:40 rules out the 24:30 trip, which arrives at 00:50
+    const result = runRaptor(reverseNetwork, createArriveByQuery('B', '00:40:00'));
+    expect(getTravelTimes(reverseNetwork.timetable, result).get('A')).toBe(30);
+    expect(-result.arrivals[reverseNetwork.timetable.stopIndex.get('A')]).toBe(parseTimeToMinutes('00:10:00'));
+  });
+
+  it('finds the late trip when arriving by 01:00', () => {
+    const result = runRaptor(reverseNetwork, createArriveByQuery('B', '01:00:00'));
+    expect(getTravelTimes(reverseNetwork.timetable, result).get('A')).toBe(30);
+  });
+
+  it('takes a frequency instance of the day before', () => {
+    // The 00:40 vehicle arrives at 00:55, the 01:00 vehicle only at 01:15
+    const result = runRaptor(reverseNetwork, createArriveByQuery('C', '01:10:00'));
+    expect(-result.arrivals[reverseNetwork.timetable.stopIndex.get('A')]).toBe(parseTimeToMinutes('00:40:00'));
+  });
+
+  it('needs the previous day shifted forward on the reversed timetable', () => {
+    const query = createArriveByQuery('B', '01:00:00', {
+      previousDay: { serviceIds: SATURDAY_SERVICES, offset: -MINUTES_PER_DAY }
+    });
+    expect(getTravelTimes(reverseNetwork.timetable, runRaptor(reverseNetwork, query)).has('A')).toBe(false);
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * RAPTOR earliest-arrival routing
+ *
+ * Round-based public transit routing (Delling, Pajor and Werneck, 2012). Round
+ * k finds the earliest arrival at every stop using at most k vehicles: it scans
+ * the patterns through the stops improved in the previous round, then walks
+ * the footpaths from the stops improved by a vehicle. Round 0 holds the
+ * origins and the stops within walking distance of them.
+ */
+import { Timetable, TravelTimeMap } from '@/utils/gtfsUtils/gtfsTypes';
+import { getFrequencyInstances } from '@/utils/gtfsUtils/frequencyUtils';
+import { getFootpaths, getStopTransferTime } from '@/utils/gtfsUtils/transferUtils';
+import { createHeadwayLookup } from './headways';
+import { InitialWaitMode, RaptorNetwork, RoundLegs, RoutingConstraints, RoutingQuery, RoutingResult } from './types';
+
+/**
+ * Default maximum number of vehicle changes
+ */
+export const DEFAULT_MAX_TRANSFERS = 2;
+
+/**
+ * Default routing constraints: up to two changes, no walking limits, no transfer
+ * penalty, and stops with arranged pickup or drop-off usable
+ */
+export const DEFAULT_ROUTING_CONSTRAINTS: RoutingConstraints = {
+  maxTransfers: DEFAULT_MAX_TRANSFERS,
+  maxWalkMinutes: Infinity,
+  maxWalkMeters: Infinity,
+  transferPenalty: 0,
+  allowArrangedStops: true
+};
+
+/**
+ * Labels of a RAPTOR search, kept between the queries of a profile
+ */
+export interface RaptorState {
+  /** Earliest arrival per stop over all rounds */
+  best: Float64Array;
+  /** Earliest arrival per round and stop */
+  roundArrivals: Float64Array[];
+  /** Whether the arrival of a round was by vehicle rather than on foot */
+  roundByVehicle: Uint8Array[];
+  /** Time the journey of each label leaves the origin when timed exactly, per round */
+  roundStarts: Float64Array[];
+  /** Headway of the first vehicle boarded on the journey of each label in minutes, per round (NaN if none) */
+  roundHeadways: Float64Array[];
+  /** Minutes walked on the journey of each label, per round */
+  roundWalks: Float64Array[];
+  /** How each label was reached, per round */
+  roundLegs: RoundLegs[];
+  /** Start of the journey with the earliest arrival per stop */
+  starts: Float64Array;
+  /** First headway of the journey with the earliest arrival per stop */
+  headways: Float64Array;
+}
+
+/**
+ * Create empty labels for a search
+ *
+ * @param stopCount - Number of stops in the timetable
+ * @param maxTransfers - Maximum number of vehicle changes
+ * @returns Labels with every stop unreached
+ */
+export const createRaptorState = (stopCount: number, maxTransfers: number): RaptorState => {
+  const rounds = maxTransfers + 2;
+  return {
+    best: new Float64Array(stopCount).fill(Infinity),
+    roundArrivals: Array.from({ length: rounds }, () => new Float64Array(stopCount).fill(Infinity)),
+    roundByVehicle: Array.from({ length: rounds }, () => new Uint8Array(stopCount)),
+    roundStarts: Array.from({ length: rounds }, () => new Float64Array(stopCount).fill(NaN)),
+    roundHeadways: Array.from({ length: rounds }, () => new Float64Array(stopCount).fill(NaN)),
+    roundWalks: Array.from({ length: rounds }, () => new Float64Array(stopCount)),
+    roundLegs: Array.from({ length: rounds }, () => ({
+      boardStopTimes: new Int32Array(stopCount).fill(-1),
+      alightStopTimes: new Int32Array(stopCount).fill(-1),
+      timeOffsets: new Float64Array(stopCount),
+      walkFrom: new Int32Array(stopCount).fill(-1),
+      walkStarts: new Float64Array(stopCount).fill(NaN)
+    })),
+    starts: new Float64Array(stopCount).fill(NaN),
+    headways: new Float64Array(stopCount).fill(NaN)
+  };
+};
+
+/**
+ * Run the rounds of a query on existing labels
+ *
+ * Labels left by a query with a later departure remain valid for an earlier
+ * one, since riders can always wait at the origin; rRAPTOR relies on this to
+ * only propagate improvements.
+ *
+ * @param network - Route patterns of the timetable
+ * @param query - Origins, departure time and routing limits
+ * @param state - Labels to improve
+ */
+export const runRaptorRounds = (network: RaptorNetwork, query: RoutingQuery, state: RaptorState) => {
+  const { timetable, patternStopStart, patternStops, patternTripStart, patternTrips, patternTemplates } = network;
+  const { stopIds, stopIndex, tripStart, tripNextInBlock, stopTimeStop, arrival, departure, pickupType, dropOffType } = timetable;
+  const {
+    departureTime, maxTransfers, maxWalkMinutes, maxWalkMeters, transferPenalty, allowArrangedStops, maxDuration,
+    activeServiceIds, previousDay, allowedRouteIds, restrictions, transferModel
+  } = query;
+  const { best, roundArrivals, roundByVehicle, roundStarts, roundHeadways, roundWalks, roundLegs } = state;
+  const stopCount = stopIds.length;
+  const latestArrival = departureTime + maxDuration;
+
+  // Labels of round k include the penalties of its k - 1 changes
+  const penaltyOf = (round: number) => Math.max(0, round - 1) * transferPenalty;
+
+  // Only trips of the selected routes, running on the travel date or past midnight of the day before
+  const allowedRoutes = timetable.routeIds.map(id => !allowedRouteIds || allowedRouteIds.has(id));
+  const serviceDays = [
+    { offset: 0, serviceIds: activeServiceIds },
+    ...(previousDay ? [previousDay] : [])
+  ].map(({ offset, serviceIds }) => {
+    const runningServices = timetable.serviceIds.map(id => !serviceIds || serviceIds.has(id));
+    const isUsable = (trip: number) => {
+      const service = timetable.tripService[trip];
+      return service !== -1 && runningServices[service] && allowedRoutes[timetable.tripRoute[trip]] &&
+        (!restrictions || restrictions.trips[trip] === 1);
+    };
+    return { offset, isUsable, getHeadway: createHeadwayLookup(timetable, isUsable) };
+  });
+  
+  // Whether a pickup_type or drop_off_type lets riders on or off: never for 1, by arrangement for 2 and 3
+  const isServed = (type: number) => type !== 1 && (allowArrangedStops || (type !== 2 && type !== 3));
+
+  // Stops where vehicles can be boarded and left
+  const canBoard = stopIds.map(stopId => !restrictions?.stopIds || restrictions.stopIds.has(stopId));
+
+  // Time needed before boarding at a stop after arriving there by vehicle (null if forbidden)
+  const changeTimes = stopIds.map(stopId => transferModel ? getStopTransferTime(transferModel, stopId) : 0);
+
+  let marked = new Uint8Array(stopCount);
+  let markedStops: number[] = [];
+
+  const improve = (
+    round: number,
+    stop: number,
+    time: number,
+    vehicle: boolean,
+    start: number,
+    headway: number,
+    walk: number
+  ) => {
+    if (time > latestArrival || time >= best[stop] || walk > maxWalkMinutes) return false;
+
+    best[stop] = roundArrivals[round][stop] = time;
+    roundByVehicle[round][stop] = vehicle ? 1 : 0;
+    state.starts[stop] = roundStarts[round][stop] = start;
+    state.headways[stop] = roundHeadways[round][stop] = headway;
+    roundWalks[round][stop] = walk;
+    if (!marked[stop]) {
+      marked[stop] = 1;
+      markedStops.push(stop);
+    }
+    return true;
+  };
+
+  // Record how an improved label was reached
+  const setLeg = (
+    round: number,
+    stop: number,
+    boardStopTime: number,
+    alightStopTime: number,
+    timeOffset: number,
+    walkFrom = -1,
+    walkStart = NaN
+  ) => {
+    const legs = roundLegs[round];
+    legs.boardStopTimes[stop] = boardStopTime;
+    legs.alightStopTimes[stop] = alightStopTime;
+    legs.timeOffsets[stop] = timeOffset;
+    legs.walkFrom[stop] = walkFrom;
+    legs.walkStarts[stop] = walkStart;
+  };
+
+  // Templates stand for many vehicles, so blocks never continue into them
+  const templateTrips = new Set(Array.from(patternTemplates.values(), template => template.trip));
+
+  // Stay on board where a trip continues as the next trip of its block: the same round, without a change
+  const rideThrough = (
+    round: number,
+    trip: number,
+    timeOffset: number,
+    boardStopTime: number,
+    start: number,
+    headway: number,
+    walk: number
+  ) => {
+    const isUsable = serviceDays.find(day => day.offset === timeOffset)?.isUsable;
+    const penalty = penaltyOf(round);
+
+    for (let next = tripNextInBlock[trip]; next !== -1 && !templateTrips.has(next) && isUsable?.(next); next = tripNextInBlock[next]) {
+      for (let stopTime = tripStart[next]; stopTime < tripStart[next + 1]; stopTime++) {
+        const stop = stopTimeStop[stopTime];
+        if (!canBoard[stop] || !isServed(dropOffType[stopTime])) continue;
+
+        if (improve(round, stop, arrival[stopTime] / 60 + timeOffset + penalty, true, start, headway, walk)) {
+          setLeg(round, stop, boardStopTime, stopTime, timeOffset);
+        }
+      }
+    }
+  };
+
+  // Walk from stops to nearby stops, never chaining two walks
+  const relaxFootpaths = (round: number, fromStops: number[]) => {
+    if (!transferModel) return;
+
+    const legs = roundLegs[round];
+    fromStops.map(stop => ({
+      stop,
+      time: roundArrivals[round][stop],
+      start: roundStarts[round][stop],
+      headway: roundHeadways[round][stop],
+      walk: roundWalks[round][stop],
+      boardStopTime: legs.boardStopTimes[stop],
+      alightStopTime: legs.alightStopTimes[stop],
+      timeOffset: legs.timeOffsets[stop]
+    })).forEach(({ stop, time, start, headway, walk, boardStopTime, alightStopTime, timeOffset }) => {
+      getFootpaths(transferModel, stopIds[stop]).forEach(footpath => {
+        if (footpath.distance > maxWalkMeters) return;
+
+        const toStop = stopIndex.get(footpath.toStopId);
+        if (
+          toStop !== undefined &&
+          improve(round, toStop, time + footpath.duration, false, start, headway, walk + footpath.duration)
+        ) {
+          setLeg(round, toStop, boardStopTime, alightStopTime, timeOffset, stop, time);
+        }
+      });
+    });
+  };
+
+  // Round 0: reach the origins and the stops within walking distance of them;
+  // the access walk to an origin (e.g. to a platform of the chosen station) is not limited
+  query.origins.forEach(({ stopId, duration }) => {
+    const stop = stopIndex.get(stopId);
+    if (stop !== undefined && improve(0, stop, departureTime + duration, false, departureTime, NaN, 0)) {
+      setLeg(0, stop, -1, -1, 0);
+    }
+  });
+  relaxFootpaths(0, [...markedStops]);
+
+  for (let round = 1; round <= maxTransfers + 1 && markedStops.length > 0; round++) {
+    const previous = roundArrivals[round - 1];
+    const previousByVehicle = roundByVehicle[round - 1];
+    const previousStarts = roundStarts[round - 1];
+    const previousHeadways = roundHeadways[round - 1];
+    const previousWalks = roundWalks[round - 1];
+    const previousPenalty = penaltyOf(round - 1);
+    const penalty = penaltyOf(round);
+
+    // Earliest marked position in each pattern through a marked stop
+    const queue = new Map<number, number>();
+    markedStops.forEach(stop => {
+      for (let s = network.stopPatternStart[stop]; s < network.stopPatternStart[stop + 1]; s++) {
+        const pattern = network.stopPatterns[s];
+        if (queue.has(pattern)) continue;
+
+        for (let i = patternStopStart[pattern]; i < patternStopStart[pattern + 1]; i++) {
+          if (marked[patternStops[i]]) {
+            queue.set(pattern, i - patternStopStart[pattern]);
+            break;
+          }
+        }
+      }
+    });
+
+    marked = new Uint8Array(stopCount);
+    markedStops = [];
+
+    queue.forEach((startPosition, pattern) => {
+      const stopsStart = patternStopStart[pattern];
+      const length = patternStopStart[pattern + 1] - stopsStart;
+      const tripsStart = patternTripStart[pattern];
+      const tripsEnd = patternTripStart[pattern + 1];
+      const template = patternTemplates.get(pattern);
+
+      // Trip being ridden (position in the pattern's trips) and the offset of its times:
+      // the service day's offset, plus the instance's offset for templates
+      let current = -1;
+      let timeOffset = 0;
+      let boardStopTime = -1;
+      let boardStart = NaN;
+      let boardHeadway = NaN;
+      let boardWalk = 0;
+
+      // The first vehicle of a journey fixes when it leaves the origin and how often it runs
+      const board = (stop: number, stopTime: number, boardDeparture: number, headway: () => number) => {
+        boardStopTime = stopTime;
+        boardWalk = previousWalks[stop];
+        if (round === 1) {
+          boardStart = boardDeparture - (previous[stop] - departureTime);
+          boardHeadway = headway();
+        } else {
+          boardStart = previousStarts[stop];
+          boardHeadway = previousHeadways[stop];
+        }
+      };
+
+      for (let position = startPosition; position < length; position++) {
+        const stop = patternStops[stopsStart + position];
+
+        // The vehicle passes stops where it cannot be left or boarded
+        if (!canBoard[stop]) continue;
+
+        if (current !== -1) {
+          const stopTime = tripStart[patternTrips[current]] + position;
+          const arrivalTime = arrival[stopTime] / 60 + timeOffset + penalty;
+          if (
+            isServed(dropOffType[stopTime]) &&
+            improve(round, stop, arrivalTime, true, boardStart, boardHeadway, boardWalk)
+          ) {
+            setLeg(round, stop, boardStopTime, stopTime, timeOffset);
+          }
+        }
+
+        if (previous[stop] === Infinity) continue;
+
+        const changeTime = previousByVehicle[stop] ? changeTimes[stop] : 0;
+        if (changeTime === null) continue;
+        const readyTime = previous[stop] - previousPenalty + changeTime;
+
+        if (template) {
+          if (!isServed(pickupType[tripStart[template.trip] + position])) continue;
+
+          // First instance of the template leaving this stop in time, on any service day
+          const stopOffset = departure[tripStart[template.trip] + position] / 60 - template.firstDeparture;
+          serviceDays.forEach(({ offset, isUsable }) => {
+            if (!isUsable(template.trip)) return;
+
+            const [instance] = getFrequencyInstances(
+              template,
+              readyTime - stopOffset - offset,
+              latestArrival - stopOffset - offset
+            );
+            const instanceOffset = instance && instance.start - template.firstDeparture + offset;
+            if (instance && (current === -1 || instanceOffset < timeOffset)) {
+              current = tripsStart;
+              timeOffset = instanceOffset;
+              board(stop, tripStart[template.trip] + position, instance.start + stopOffset + offset, () => instance.headway);
+            }
+          });
+          continue;
+        }
+
+        // Trips are ordered at every stop, so search each service day for the first one leaving in time that picks up here
+        serviceDays.forEach(({ offset, isUsable, getHeadway }) => {
+          const limit = current !== -1 && timeOffset === offset ? current : tripsEnd;
+          let low = tripsStart;
+          let high = limit;
+          while (low < high) {
+            const mid = (low + high) >> 1;
+            if (departure[tripStart[patternTrips[mid]] + position] / 60 + offset < readyTime) {
+              low = mid + 1;
+            } else {
+              high = mid;
+            }
+          }
+          while (
+            low < limit &&
+            (!isUsable(patternTrips[low]) || !isServed(pickupType[tripStart[patternTrips[low]] + position]))
+          ) low++;
+          if (low === limit) return;
+
+          // Another day's trip only replaces the current one if it leaves no later
+          const trip = patternTrips[low];
+          const boardDeparture = departure[tripStart[trip] + position] / 60 + offset;
+          if (current !== -1 && boardDeparture > departure[tripStart[patternTrips[current]] + position] / 60 + timeOffset) {
+            return;
+          }
+
+          current = low;
+          timeOffset = offset;
+          board(stop, tripStart[trip] + position, boardDeparture, () => getHeadway(stop, timetable.tripRoute[trip]));
+        });
+      }
+
+      if (current !== -1 && !template) {
+        rideThrough(round, patternTrips[current], timeOffset, boardStopTime, boardStart, boardHeadway, boardWalk);
+      }
+    });
+
+    relaxFootpaths(round, markedStops.filter(stop => roundByVehicle[round][stop]));
+  }
+};
+
+/**
+ * Find the earliest arrival at every stop from a set of origin stops
+ *
+ * Vehicles can only be changed at the same stop after the stop's minimum
+ * transfer time, or by walking a footpath of the transfer model. Without a
+ * transfer model there is no walking and changes take no time.
+ *
+ * Arrivals include the transfer penalty of every change, so a journey with an
+ * extra change only wins if it saves more than the penalty. Each stop keeps a
+ * single label per round, the earliest, so the walking limits can miss a slower
+ * journey that walks less.
+ *
+ * @param network - Route patterns of the timetable
+ * @param query - Origins, departure time and routing limits
+ * @returns Earliest arrivals overall and per round
+ */
+export const runRaptor = (network: RaptorNetwork, query: RoutingQuery): RoutingResult => {
+  const state = createRaptorState(network.timetable.stopIds.length, query.maxTransfers);
+  runRaptorRounds(network, query, state);
+
+  return {
+    departureTime: query.departureTime,
+    transferPenalty: query.transferPenalty,
+    arrivals: state.best,
+    roundArrivals: state.roundArrivals,
+    roundLegs: state.roundLegs,
+    starts: state.starts,
+    headways: state.headways
+  };
+};
+
+/**
+ * Convert routing results to travel times
+ *
+ * The initial wait is counted according to the mode:
+ * - `schedule`: from the chosen departure time, including the actual wait
+ * - `exact`: from the departure of the first vehicle, as if riders arrive just in time
+ * - `half-headway`: from the first vehicle's departure plus half its headway at the
+ *   boarding stop, the average wait of riders arriving at random; journeys whose
+ *   headway is unknown keep the actual wait
+ *
+ * Journeys without a vehicle always count from the chosen departure time.
+ *
+ * @param timetable - Timetable the results refer to
+ * @param result - Result of a routing query
+ * @param initialWait - How the wait for the first vehicle is counted
+ * @param maxDuration - Stops with a longer travel time are left out (minutes)
+ * @returns Travel time in minutes to every reached stop
+ */
+export const getTravelTimes = (
+  timetable: Timetable,
+  result: RoutingResult,
+  initialWait: InitialWaitMode = 'schedule',
+  maxDuration: number = Infinity
+): TravelTimeMap => {
+  const travelTimes: TravelTimeMap = new Map();
+
+  result.arrivals.forEach((arrivalTime, stop) => {
+    if (arrivalTime === Infinity) return;
+
+    const start = result.starts[stop];
+    const headway = result.headways[stop];
+    let travelTime = arrivalTime - result.departureTime;
+
+    if (initialWait === 'exact') {
+      travelTime = arrivalTime - start;
+    } else if (initialWait === 'half-headway' && !isNaN(headway)) {
+      travelTime = arrivalTime - start + headway / 2;
+    }
+
+    if (travelTime <= maxDuration) travelTimes.set(timetable.stopIds[stop], travelTime);
+  });
+
+  return travelTimes;
+};
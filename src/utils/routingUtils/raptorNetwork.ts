@@ -0,0 +1,150 @@
+/**
+ * Route patterns for RAPTOR
+ *
+ * RAPTOR scans routes rather than single trips. Here, trips are grouped into
+ * patterns of identical stop sequences and split further wherever one trip
+ * overtakes another, so the earliest trip catchable at a stop can be found by
+ * binary search. Frequency templates that are not expanded get a pattern of
+ * their own, from which instances are generated while routing. Arrive-by
+ * queries run on the patterns of the time-reversed timetable.
+ */
+import { FrequencyTemplate, GTFSData, Timetable } from '@/utils/gtfsUtils/gtfsTypes';
+import { buildFrequencyTemplates } from '@/utils/gtfsUtils/frequencyUtils';
+import { reverseTimetable } from '@/utils/gtfsUtils/timetable';
+import { RaptorNetwork } from './types';
+
+/**
+ * Check whether a trip leaves or arrives before a trip with the same stops
+ *
+ * @param timetable - Timetable containing both trips
+ * @param earlier - Trip departing first at the first stop
+ * @param later - Trip departing later at the first stop
+ * @returns True if the later trip is ahead of the earlier one at some stop
+ */
+const overtakes = (timetable: Timetable, earlier: number, later: number): boolean => {
+  const { tripStart, arrival, departure } = timetable;
+  const offset = tripStart[later] - tripStart[earlier];
+
+  for (let i = tripStart[earlier]; i < tripStart[earlier + 1]; i++) {
+    if (arrival[i + offset] < arrival[i] || departure[i + offset] < departure[i]) return true;
+  }
+  return false;
+};
+
+/**
+ * Build the route patterns of a timetable
+ *
+ * @param timetable - Timetable to route on
+ * @param frequencies - Frequency windows of template trips that were not expanded
+ * @returns Network of patterns
+ */
+export const buildRaptorNetwork = (
+  timetable: Timetable,
+  frequencies: GTFSData['frequencies'] = []
+): RaptorNetwork => {
+  const { tripIds, tripStart, stopTimeStop, departure } = timetable;
+  const templates = buildFrequencyTemplates(timetable, frequencies);
+
+  const patterns: { trips: number[]; template?: FrequencyTemplate }[] = [];
+  const tripsByStops = new Map<string, number[]>();
+
+  for (let trip = 0; trip < tripIds.length; trip++) {
+    // A trip needs at least two stops to take anyone anywhere
+    if (tripStart[trip + 1] - tripStart[trip] < 2) continue;
+
+    const template = templates.get(trip);
+    if (template) {
+      patterns.push({ trips: [trip], template });
+      continue;
+    }
+
+    const key = stopTimeStop.subarray(tripStart[trip], tripStart[trip + 1]).join(',');
+    const trips = tripsByStops.get(key);
+    if (trips) {
+      trips.push(trip);
+    } else {
+      tripsByStops.set(key, [trip]);
+    }
+  }
+
+  tripsByStops.forEach(trips => {
+    trips.sort((a, b) => departure[tripStart[a]] - departure[tripStart[b]]);
+
+    // Each trip joins the first pattern whose last trip it does not overtake
+    const split: number[][] = [];
+    trips.forEach(trip => {
+      const pattern = split.find(existing => !overtakes(timetable, existing[existing.length - 1], trip));
+      if (pattern) {
+        pattern.push(trip);
+      } else {
+        split.push([trip]);
+      }
+    });
+
+    split.forEach(patternTrips => patterns.push({ trips: patternTrips }));
+  });
+
+  // Flatten the patterns into typed arrays
+  const patternStopStart = new Uint32Array(patterns.length + 1);
+  const patternTripStart = new Uint32Array(patterns.length + 1);
+  patterns.forEach(({ trips }, p) => {
+    patternStopStart[p + 1] = patternStopStart[p] + tripStart[trips[0] + 1] - tripStart[trips[0]];
+    patternTripStart[p + 1] = patternTripStart[p] + trips.length;
+  });
+
+  const patternStops = new Uint32Array(patternStopStart[patterns.length]);
+  const patternTrips = new Uint32Array(patternTripStart[patterns.length]);
+  const patternTemplates = new Map<number, FrequencyTemplate>();
+  const patternsByStop: number[][] = timetable.stopIds.map(() => []);
+
+  patterns.forEach(({ trips, template }, p) => {
+    patternStops.set(stopTimeStop.subarray(tripStart[trips[0]], tripStart[trips[0] + 1]), patternStopStart[p]);
+    patternTrips.set(trips, patternTripStart[p]);
+    if (template) patternTemplates.set(p, template);
+
+    patternStops.subarray(patternStopStart[p], patternStopStart[p + 1]).forEach(stop => {
+      const stopPatterns = patternsByStop[stop];
+      if (stopPatterns[stopPatterns.length - 1] !== p) stopPatterns.push(p);
+    });
+  });
+
+  const stopPatternStart = new Uint32Array(timetable.stopIds.length + 1);
+  patternsByStop.forEach((stopPatterns, stop) => {
+    stopPatternStart[stop + 1] = stopPatternStart[stop] + stopPatterns.length;
+  });
+
+  return {
+    timetable,
+    patternStopStart,
+    patternStops,
+    patternTripStart,
+    patternTrips,
+    patternTemplates,
+    stopPatternStart,
+    stopPatterns: Uint32Array.from(patternsByStop.flat())
+  };
+};
+
+/**
+ * Build the route patterns of the time-reversed timetable for arrive-by queries
+ *
+ * Frequency templates that were not expanded stay templates. Their service
+ * windows hold forward starts, so each template gets the `mirror` that turns
+ * a forward instance start into the start of the reversed instance: a forward
+ * instance leaving `s` minutes after the template ends as many minutes earlier
+ * on the reversed timetable. Stop and trip indices are the same as in the
+ * forward network.
+ *
+ * @param data - Timetable and frequencies as used for routing
+ * @returns Network of reversed patterns
+ */
+export const buildReverseRaptorNetwork = (data: Pick<GTFSData, 'timetable' | 'frequencies'>): RaptorNetwork => {
+  const { tripStart, departure } = data.timetable;
+  const network = buildRaptorNetwork(reverseTimetable(data.timetable), data.frequencies);
+
+  network.patternTemplates.forEach(template => {
+    template.mirror = template.firstDeparture + departure[tripStart[template.trip]] / 60;
+  });
+
+  return network;
+};
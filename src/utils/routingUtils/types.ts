@@ -0,0 +1,204 @@
+/**
+ * Type definitions for transit routing
+ */
+import { FrequencyTemplate, Timetable, TransferModel } from '@/utils/gtfsUtils/gtfsTypes';
+
+/**
+ * Timetable arranged into route patterns for RAPTOR
+ *
+ * A pattern is a group of trips visiting the same stops in the same order
+ * without overtaking each other, so its trips are ordered by departure at
+ * every stop.
+ */
+export interface RaptorNetwork {
+  /** Timetable the patterns refer to */
+  timetable: Timetable;
+  /** Offset of each pattern's stops in `patternStops` (length patterns + 1) */
+  patternStopStart: Uint32Array;
+  /** Stop indices of all patterns, in visiting order */
+  patternStops: Uint32Array;
+  /** Offset of each pattern's trips in `patternTrips` (length patterns + 1) */
+  patternTripStart: Uint32Array;
+  /** Trip indices of all patterns, ordered by departure */
+  patternTrips: Uint32Array;
+  /** Frequency template of patterns whose single trip runs at a headway */
+  patternTemplates: Map<number, FrequencyTemplate>;
+  /** Offset of each stop's patterns in `stopPatterns` (length stops + 1) */
+  stopPatternStart: Uint32Array;
+  /** Patterns serving each stop */
+  stopPatterns: Uint32Array;
+}
+
+/**
+ * Stop at which a journey starts, with the time needed to get there
+ */
+export interface AccessStop {
+  /** Stop ID */
+  stopId: string;
+  /** Time from the origin to the stop in minutes */
+  duration: number;
+}
+
+/**
+ * Trips of the previous service day that run past midnight into the travel date
+ *
+ * GTFS gives these trips times beyond 24:00:00 of the day their service runs,
+ * so they are boarded with their times shifted by a day.
+ */
+export interface PreviousServiceDay {
+  /** Services running on the day before the travel date (null uses all trips) */
+  serviceIds: Set<string> | null;
+  /** Minutes added to the previous day's times: minus a day, or plus a day on the time-reversed timetable */
+  offset: number;
+}
+
+/**
+ * Stops and trips a routing profile is limited to, such as step-free or with a bike
+ */
+export interface ProfileRestrictions {
+  /** Stops where vehicles can be boarded and left (null for all) */
+  stopIds: Set<string> | null;
+  /** 1 for every trip index of the network's timetable that can be used */
+  trips: Uint8Array;
+}
+
+/**
+ * Limits on the journeys a query may find, and the cost of changing vehicles
+ */
+export interface RoutingConstraints {
+  /** Maximum number of vehicle changes */
+  maxTransfers: number;
+  /** Maximum walking time of a journey in minutes, not counting the access walk to the origins (Infinity for no limit) */
+  maxWalkMinutes: number;
+  /** Maximum distance of a single walk between stops in meters (Infinity for no limit) */
+  maxWalkMeters: number;
+  /** Minutes added to the travel time for every vehicle change */
+  transferPenalty: number;
+  /** Whether stops where pickup or drop-off must be arranged by phone or with the driver (type 2 or 3) can be used */
+  allowArrangedStops: boolean;
+}
+
+/**
+ * Parameters of a single routing query
+ */
+export interface RoutingQuery extends RoutingConstraints {
+  /** Stops the journey can start at */
+  origins: AccessStop[];
+  /** Departure from the origin in minutes of the service day */
+  departureTime: number;
+  /** Journeys taking longer than this many minutes are discarded */
+  maxDuration: number;
+  /** Services running on the travel date (null uses all trips) */
+  activeServiceIds: Set<string> | null;
+  /** Late trips of the day before (null leaves them out) */
+  previousDay: PreviousServiceDay | null;
+  /** Routes of the selected modes (null uses all routes) */
+  allowedRouteIds: Set<string> | null;
+  /** Stops and vehicles the profile can use (null for no restrictions) */
+  restrictions: ProfileRestrictions | null;
+  /** Transfers and footpaths between stops (no walking between stops when null) */
+  transferModel: TransferModel | null;
+}
+
+/**
+ * How the labels of a round were reached: the last vehicle ridden and any walk after it
+ *
+ * Walks copy the vehicle leg of the stop they start from, so every label can be
+ * traced back through the labels of the previous round without chaining walks.
+ */
+export interface RoundLegs {
+  /** Stop time at which the last vehicle was boarded, per stop (-1 if none) */
+  boardStopTimes: Int32Array;
+  /** Stop time at which the last vehicle was left, per stop (-1 if none) */
+  alightStopTimes: Int32Array;
+  /** Minutes the trip runs after its timetable times, per stop: the instance offset of a frequency trip, plus a day for trips of the previous service day */
+  timeOffsets: Float64Array;
+  /** Stop the final walk started at, per stop (-1 if not reached on foot) */
+  walkFrom: Int32Array;
+  /** Start of the final walk in minutes, per stop */
+  walkStarts: Float64Array;
+}
+
+/**
+ * Earliest arrivals found by a routing query
+ */
+export interface RoutingResult {
+  /** Departure from the origin in minutes of the service day */
+  departureTime: number;
+  /** Minutes added to the arrivals for every vehicle change */
+  transferPenalty: number;
+  /** Earliest arrival per timetable stop index in minutes, including transfer penalties (Infinity if not reached) */
+  arrivals: Float64Array;
+  /** Arrivals per stop improved in each round; round k uses k vehicles and includes k - 1 transfer penalties (Infinity elsewhere) */
+  roundArrivals: Float64Array[];
+  /** How the labels of each round were reached */
+  roundLegs: RoundLegs[];
+  /** Time the journey to each stop leaves the origin when timed to catch its first vehicle exactly */
+  starts: Float64Array;
+  /** Headway in minutes of the first vehicle on the journey to each stop at its boarding stop (NaN if unknown or none) */
+  headways: Float64Array;
+}
+
+/**
+ * Part of a journey spent walking or on a single vehicle
+ */
+export interface JourneyLeg {
+  /** Walking or riding a vehicle */
+  mode: 'walk' | 'transit';
+  /** Stop the leg starts at (null for the chosen point on the map) */
+  fromStopId: string | null;
+  /** Stop the leg ends at (null for the chosen point on the map) */
+  toStopId: string | null;
+  /** Departure in minutes of the service day */
+  departureTime: number;
+  /** Arrival in minutes of the service day */
+  arrivalTime: number;
+  /** Trip ridden (transit legs only) */
+  tripId?: string;
+  /** Route of the trip ridden (transit legs only) */
+  routeId?: string;
+  /** Stops passed on the vehicle from boarding to alighting (transit legs only) */
+  stopIds: string[];
+  /** Whether the rider stays on board from the previous leg, whose trip continues as this one */
+  inSeat?: boolean;
+}
+
+/**
+ * Journey between an origin stop and a stop or point, as a sequence of legs
+ */
+export interface Journey {
+  /** Legs in travel order */
+  legs: JourneyLeg[];
+  /** Departure from the origin in minutes of the service day */
+  departureTime: number;
+  /** Arrival at the destination in minutes of the service day */
+  arrivalTime: number;
+  /** Number of vehicle changes, not counting staying on board through a block */
+  transfers: number;
+}
+
+/**
+ * How the wait for the first vehicle is counted in travel times
+ * - `exact`: riders arrive at the stop just in time for the departure
+ * - `half-headway`: riders arrive at random and wait half the headway on average
+ * - `schedule`: riders leave at the chosen time and wait for the next departure
+ */
+export type InitialWaitMode = 'exact' | 'half-headway' | 'schedule';
+
+/**
+ * Statistic summarizing the travel times of a departure window
+ * - `min`: fastest departure
+ * - `median`: typical departure
+ * - `p90`: 90th percentile, a travel time riders can rely on
+ */
+export type ProfileStatistic = 'min' | 'median' | 'p90';
+
+/**
+ * Travel times for every minute of a departure window
+ */
+export interface ProfileResult {
+  /** Departures from the origin in minutes of the service day, one per minute */
+  departureTimes: number[];
+  /** Travel times in minutes per stop index and departure (Infinity if not reached in time; undefined if never) */
+  travelTimes: (Float64Array | undefined)[];
+}
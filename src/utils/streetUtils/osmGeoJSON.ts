@@ -0,0 +1,57 @@
+/**
+ * Walkable ways from a GeoJSON export of OpenStreetMap
+ *
+ * Lines sharing a coordinate are joined there, which is how exports keep the
+ * intersections of the original ways.
+ */
+import { isWalkable } from './osmTags';
+import { StreetExtract } from './types';
+
+/**
+ * Read the walkable ways of a GeoJSON feature collection
+ *
+ * LineString and MultiLineString features are used. Features with a `highway`
+ * property are filtered by their tags; features without one are taken as
+ * walkable, as in exports of a network that was filtered already.
+ *
+ * @param collection - Parsed GeoJSON file
+ * @returns Nodes and ways of the walkable network
+ */
+export const parseStreetGeoJSON = (collection: GeoJSON.FeatureCollection): StreetExtract => {
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  const extract: StreetExtract = { nodeIds: [], nodeLats: [], nodeLons: [], ways: [] };
+  const nodeIdsByPosition = new Map<string, number>();
+
+  const nodeAt = ([lon, lat]: GeoJSON.Position): number => {
+    const key = `${lon.toFixed(7)},${lat.toFixed(7)}`;
+    let id = nodeIdsByPosition.get(key);
+    if (id === undefined) {
+      id = extract.nodeIds.length;
+      nodeIdsByPosition.set(key, id);
+      extract.nodeIds.push(id);
+      extract.nodeLats.push(lat);
+      extract.nodeLons.push(lon);
+    }
+    return id;
+  };
+
+  collection.features.forEach(feature => {
+    const { geometry, properties } = feature;
+    if (properties?.highway !== undefined && !isWalkable(properties)) return;
+
+    const lines = geometry?.type === 'LineString'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiLineString' ? geometry.coordinates : [];
+
+    lines.forEach(line => {
+      if (line.length >= 2) {
+        extract.ways.push(line.map(nodeAt));
+      }
+    });
+  });
+
+  return extract;
+};
@@ -0,0 +1,250 @@
+/**
+ * Walkable ways from an OpenStreetMap PBF extract (.osm.pbf)
+ *
+ * The file is a sequence of blobs, each a header followed by zlib-compressed
+ * protocol buffer data. Blocks hold nodes (usually dense nodes, with delta-coded
+ * IDs and coordinates) and ways referencing node IDs. Only the fields needed for
+ * a walking graph are decoded: node coordinates, and the tags and nodes of ways.
+ */
+import { ProgressCallback } from '@/utils/gtfsUtils/gtfsTypes';
+import { isWalkable } from './osmTags';
+import { StreetExtract } from './types';
+
+/**
+ * Value of a protocol buffer field: a number for varints, bytes for length-delimited fields
+ */
+type FieldValue = number | Uint8Array;
+
+/**
+ * Read a varint of up to 64 bits
+ *
+ * Values are built by multiplication rather than bit shifts, so they stay exact
+ * up to 2^53, which covers OSM IDs.
+ *
+ * @param bytes - Encoded message
+ * @param position - Offset of the varint
+ * @returns Decoded value and the offset after it
+ */
+const readVarint = (bytes: Uint8Array, position: number): [number, number] => {
+  let value = 0;
+  let factor = 1;
+  let byte: number;
+
+  do {
+    byte = bytes[position++];
+    value += (byte & 0x7f) * factor;
+    factor *= 128;
+  } while (byte & 0x80);
+
+  // Negative int64 values take ten bytes in two's complement
+  return [value >= 2 ** 63 ? value - 2 ** 64 : value, position];
+};
+
+/**
+ * Decode a zigzag-encoded signed value
+ */
+const zigzag = (value: number): number => value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+
+/**
+ * Call back for every field of a protocol buffer message
+ *
+ * @param bytes - Encoded message
+ * @param onField - Called with the field number and its value
+ */
+const readFields = (bytes: Uint8Array, onField: (field: number, value: FieldValue) => void) => {
+  let position = 0;
+
+  while (position < bytes.length) {
+    let key: number;
+    [key, position] = readVarint(bytes, position);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    if (wireType === 0) {
+      let value: number;
+      [value, position] = readVarint(bytes, position);
+      onField(field, value);
+    } else if (wireType === 2) {
+      let length: number;
+      [length, position] = readVarint(bytes, position);
+      onField(field, bytes.subarray(position, position + length));
+      position += length;
+    } else if (wireType === 1) {
+      position += 8;
+    } else if (wireType === 5) {
+      position += 4;
+    } else {
+      throw new Error(`Unsupported protocol buffer wire type ${wireType}`);
+    }
+  }
+};
+
+/**
+ * Decode a packed repeated varint field
+ *
+ * @param bytes - Contents of the field
+ * @param signed - Whether values are zigzag-encoded (sint32/sint64)
+ * @param delta - Whether each value is stored as the difference to the previous one
+ * @returns Decoded values
+ */
+const readPacked = (bytes: Uint8Array, signed = false, delta = false): number[] => {
+  const values: number[] = [];
+  let position = 0;
+  let previous = 0;
+
+  while (position < bytes.length) {
+    let value: number;
+    [value, position] = readVarint(bytes, position);
+    if (signed) value = zigzag(value);
+    if (delta) value = previous += value;
+    values.push(value);
+  }
+
+  return values;
+};
+
+/**
+ * Decompress the data of a blob
+ *
+ * @param blob - Encoded Blob message
+ * @returns Uncompressed block
+ */
+const readBlob = async (blob: Uint8Array): Promise<Uint8Array> => {
+  let raw: Uint8Array | null = null;
+  let zlibData: Uint8Array | null = null;
+  let compression: number | null = null;
+
+  readFields(blob, (field, value) => {
+    if (field === 1) raw = value as Uint8Array;
+    else if (field === 3) zlibData = value as Uint8Array;
+    else if (field >= 4) compression = field;
+  });
+
+  if (raw) return raw;
+  if (zlibData) {
+    const stream = new Blob([zlibData]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  throw new Error(`Unsupported compression in PBF blob (field ${compression})`);
+};
+
+/**
+ * Add the nodes and walkable ways of a primitive block to an extract
+ *
+ * @param block - Uncompressed PrimitiveBlock message
+ * @param extract - Extract to add to
+ */
+const readPrimitiveBlock = (block: Uint8Array, extract: StreetExtract) => {
+  const decoder = new TextDecoder();
+  const strings: string[] = [];
+  const groups: Uint8Array[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+
+  readFields(block, (field, value) => {
+    if (field === 1) {
+      readFields(value as Uint8Array, (_, string) => strings.push(decoder.decode(string as Uint8Array)));
+    } else if (field === 2) {
+      groups.push(value as Uint8Array);
+    } else if (field === 17) {
+      granularity = value as number;
+    } else if (field === 19) {
+      latOffset = value as number;
+    } else if (field === 20) {
+      lonOffset = value as number;
+    }
+  });
+
+  // Coordinates are stored in units of granularity nanodegrees
+  const addNode = (id: number, lat: number, lon: number) => {
+    extract.nodeIds.push(id);
+    extract.nodeLats.push((latOffset + granularity * lat) * 1e-9);
+    extract.nodeLons.push((lonOffset + granularity * lon) * 1e-9);
+  };
+
+  groups.forEach(group => readFields(group, (field, value) => {
+    const message = value as Uint8Array;
+
+    if (field === 1) {
+      let id = 0, lat = 0, lon = 0;
+      readFields(message, (nodeField, nodeValue) => {
+        if (nodeField === 1) id = zigzag(nodeValue as number);
+        else if (nodeField === 8) lat = zigzag(nodeValue as number);
+        else if (nodeField === 9) lon = zigzag(nodeValue as number);
+      });
+      addNode(id, lat, lon);
+    } else if (field === 2) {
+      let ids: number[] = [], lats: number[] = [], lons: number[] = [];
+      readFields(message, (denseField, denseValue) => {
+        if (denseField === 1) ids = readPacked(denseValue as Uint8Array, true, true);
+        else if (denseField === 8) lats = readPacked(denseValue as Uint8Array, true, true);
+        else if (denseField === 9) lons = readPacked(denseValue as Uint8Array, true, true);
+      });
+      ids.forEach((id, i) => addNode(id, lats[i], lons[i]));
+    } else if (field === 3) {
+      let keys: number[] = [], values: number[] = [], refs: number[] = [];
+      readFields(message, (wayField, wayValue) => {
+        if (wayField === 2) keys = readPacked(wayValue as Uint8Array);
+        else if (wayField === 3) values = readPacked(wayValue as Uint8Array);
+        else if (wayField === 8) refs = readPacked(wayValue as Uint8Array, true, true);
+      });
+
+      const tags: Record<string, string> = {};
+      keys.forEach((key, i) => {
+        tags[strings[key]] = strings[values[i]];
+      });
+      if (refs.length >= 2 && isWalkable(tags)) {
+        extract.ways.push(refs);
+      }
+    }
+  }));
+};
+
+/**
+ * Read the walkable ways of an OSM PBF file
+ *
+ * @param data - Contents of the .osm.pbf file
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Nodes and walkable ways of the extract
+ */
+export const parseOsmPbf = async (
+  data: ArrayBuffer,
+  progressCallback?: ProgressCallback
+): Promise<StreetExtract> => {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  const extract: StreetExtract = { nodeIds: [], nodeLats: [], nodeLons: [], ways: [] };
+  let position = 0;
+  let lastPercent = -1;
+
+  while (position < bytes.length) {
+    // Every blob is preceded by the length of its header as a big-endian int32
+    const headerLength = view.getUint32(position);
+    position += 4;
+
+    let type = '';
+    let dataSize = 0;
+    readFields(bytes.subarray(position, position + headerLength), (field, value) => {
+      if (field === 1) type = new TextDecoder().decode(value as Uint8Array);
+      else if (field === 3) dataSize = value as number;
+    });
+    position += headerLength;
+
+    const blob = bytes.subarray(position, position + dataSize);
+    position += dataSize;
+
+    if (type === 'OSMData') {
+      readPrimitiveBlock(await readBlob(blob), extract);
+    }
+
+    const percent = Math.floor((position / bytes.length) * 100);
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      progressCallback?.(`Reading street network... ${percent}%`);
+    }
+  }
+
+  return extract;
+};
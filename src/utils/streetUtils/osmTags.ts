@@ -0,0 +1,40 @@
+/**
+ * Walkability of OpenStreetMap ways, judged from their tags
+ */
+
+/**
+ * Highways pedestrians may not use unless tagged `foot=yes`
+ */
+const CLOSED_HIGHWAYS = new Set([
+  'motorway',
+  'motorway_link',
+  'trunk',
+  'trunk_link',
+  'construction',
+  'proposed',
+  'abandoned',
+  'raceway',
+  'bus_guideway'
+]);
+
+/**
+ * Values of `foot` and `access` that keep pedestrians out
+ */
+const NO_ACCESS = new Set(['no', 'private']);
+
+/**
+ * Check whether pedestrians can walk along a way
+ *
+ * Every highway counts except motorways, trunk roads and ways not in use,
+ * unless `foot` or `access` say otherwise.
+ *
+ * @param tags - Tags of the way
+ * @returns True if the way is walkable
+ */
+export const isWalkable = (tags: Record<string, string>): boolean => {
+  if (!tags.highway) return false;
+  if (tags.foot === 'yes' || tags.foot === 'designated') return true;
+  if (NO_ACCESS.has(tags.foot) || NO_ACCESS.has(tags.access)) return false;
+
+  return !CLOSED_HIGHWAYS.has(tags.highway);
+};
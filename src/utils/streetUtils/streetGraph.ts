@@ -0,0 +1,223 @@
+/**
+ * Walking over a street network
+ *
+ * Walkable ways become an undirected graph with a node at every way point.
+ * Walks start at the nodes nearest to transit stops and spread with Dijkstra's
+ * algorithm from all of them at once, each starting at the time its stop was
+ * reached, so every node gets the earliest arrival over any stop.
+ */
+import { haversineDistance } from '@/utils/gtfsUtils/geoUtils';
+import { METERS_PER_DEGREE } from '@/utils/gtfsUtils/transferUtils';
+import { NearestNode, NodeLocator, StreetExtract, StreetNetwork, WalkSource } from './types';
+
+/**
+ * Build the walking graph of an extract
+ *
+ * Only nodes used by walkable ways are kept. Way points without coordinates,
+ * e.g. outside a clipped extract, split their way.
+ *
+ * @param source - Name of the file the extract was read from
+ * @param extract - Nodes and walkable ways
+ * @returns Street network
+ */
+export const buildStreetNetwork = (source: string, extract: StreetExtract): StreetNetwork => {
+  const { nodeIds, nodeLats, nodeLons, ways } = extract;
+
+  const usedIds = new Set<number>();
+  ways.forEach(way => way.forEach(id => usedIds.add(id)));
+
+  const nodeIndex = new Map<number, number>();
+  const lats: number[] = [];
+  const lons: number[] = [];
+  nodeIds.forEach((id, i) => {
+    if (usedIds.has(id) && !nodeIndex.has(id)) {
+      nodeIndex.set(id, lats.length);
+      lats.push(nodeLats[i]);
+      lons.push(nodeLons[i]);
+    }
+  });
+
+  // Consecutive way points with coordinates form the edges
+  const pairs: number[] = [];
+  ways.forEach(way => {
+    for (let i = 1; i < way.length; i++) {
+      const from = nodeIndex.get(way[i - 1]);
+      const to = nodeIndex.get(way[i]);
+      if (from !== undefined && to !== undefined && from !== to) {
+        pairs.push(from, to);
+      }
+    }
+  });
+
+  const nodeCount = lats.length;
+  const edgeStart = new Uint32Array(nodeCount + 1);
+  for (let i = 0; i < pairs.length; i++) {
+    edgeStart[pairs[i] + 1]++;
+  }
+  for (let node = 0; node < nodeCount; node++) {
+    edgeStart[node + 1] += edgeStart[node];
+  }
+
+  const edgeTargets = new Uint32Array(pairs.length);
+  const edgeLengths = new Float32Array(pairs.length);
+  const next = edgeStart.slice(0, nodeCount);
+  for (let i = 0; i < pairs.length; i += 2) {
+    const [from, to] = [pairs[i], pairs[i + 1]];
+    const length = haversineDistance(lats[from], lons[from], lats[to], lons[to]);
+    edgeTargets[next[from]] = to;
+    edgeLengths[next[from]++] = length;
+    edgeTargets[next[to]] = from;
+    edgeLengths[next[to]++] = length;
+  }
+
+  return {
+    source,
+    nodeLats: Float64Array.from(lats),
+    nodeLons: Float64Array.from(lons),
+    edgeStart,
+    edgeTargets,
+    edgeLengths
+  };
+};
+
+/**
+ * Create a lookup of the street node nearest to a position
+ *
+ * Nodes with edges are bucketed into a grid with cells of `maxDistance`, so
+ * only the neighbouring cells of a position have to be searched.
+ *
+ * @param network - Street network
+ * @param maxDistance - Farthest a node may be from the position in meters
+ * @returns Function giving the nearest node, or null if none is close enough
+ */
+export const createNodeLocator = (
+  network: StreetNetwork,
+  maxDistance: number
+): NodeLocator => {
+  const { nodeLats, nodeLons, edgeStart } = network;
+  const referenceLat = (nodeLats[0] ?? 0) * Math.PI / 180;
+  const cellLat = maxDistance / METERS_PER_DEGREE;
+  const cellLon = maxDistance / (METERS_PER_DEGREE * Math.cos(referenceLat));
+
+  const grid = new Map<string, number[]>();
+  for (let node = 0; node < nodeLats.length; node++) {
+    if (edgeStart[node] === edgeStart[node + 1]) continue;
+    const key = `${Math.floor(nodeLats[node] / cellLat)}|${Math.floor(nodeLons[node] / cellLon)}`;
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(node);
+    } else {
+      grid.set(key, [node]);
+    }
+  }
+
+  return (lat, lon) => {
+    const row = Math.floor(lat / cellLat);
+    const col = Math.floor(lon / cellLon);
+    let nearest: NearestNode | null = null;
+
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        grid.get(`${row + dRow}|${col + dCol}`)?.forEach(node => {
+          const distance = haversineDistance(lat, lon, nodeLats[node], nodeLons[node]);
+          if (distance <= maxDistance && (!nearest || distance < nearest.distance)) {
+            nearest = { node, distance };
+          }
+        });
+      }
+    }
+
+    return nearest;
+  };
+};
+
+/**
+ * Walk over the street network from several sources at once (multi-source Dijkstra)
+ *
+ * Every node keeps only its earliest arrival, so with `maxWalkMeters` a later
+ * walk that has more distance left can be cut off by an earlier one.
+ *
+ * @param network - Street network
+ * @param sources - Nodes to start from, with their start times
+ * @param walkingSpeedKmh - Walking speed in km/h
+ * @param maxTime - Arrivals after this many minutes are not explored
+ * @param maxWalkMeters - Longest walk from a source in meters, including the way onto the network
+ * @returns Earliest arrival in minutes per node (Infinity if not reached)
+ */
+export const walkStreetNetwork = (
+  network: StreetNetwork,
+  sources: WalkSource[],
+  walkingSpeedKmh: number,
+  maxTime: number,
+  maxWalkMeters: number
+): Float64Array => {
+  const { edgeStart, edgeTargets, edgeLengths } = network;
+  const metersPerMinute = walkingSpeedKmh * 1000 / 60;
+  const times = new Float64Array(network.nodeLats.length).fill(Infinity);
+  const walked = new Float64Array(network.nodeLats.length);
+
+  // Binary heap of [time, node] entries; outdated entries are skipped when popped
+  const heapTimes: number[] = [];
+  const heapNodes: number[] = [];
+  const push = (time: number, node: number) => {
+    let i = heapTimes.length;
+    heapTimes.push(time);
+    heapNodes.push(node);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heapTimes[parent] <= time) break;
+      heapTimes[i] = heapTimes[parent];
+      heapNodes[i] = heapNodes[parent];
+      i = parent;
+    }
+    heapTimes[i] = time;
+    heapNodes[i] = node;
+  };
+  const pop = (): [number, number] => {
+    const top: [number, number] = [heapTimes[0], heapNodes[0]];
+    const lastTime = heapTimes.pop();
+    const lastNode = heapNodes.pop();
+    const size = heapTimes.length;
+    let i = 0;
+    while (size > 0) {
+      let child = 2 * i + 1;
+      if (child >= size) break;
+      if (child + 1 < size && heapTimes[child + 1] < heapTimes[child]) child++;
+      if (heapTimes[child] >= lastTime) break;
+      heapTimes[i] = heapTimes[child];
+      heapNodes[i] = heapNodes[child];
+      i = child;
+    }
+    if (size > 0) {
+      heapTimes[i] = lastTime;
+      heapNodes[i] = lastNode;
+    }
+    return top;
+  };
+
+  sources.forEach(({ node, time, walked: distance }) => {
+    if (time <= maxTime && distance <= maxWalkMeters && time < times[node]) {
+      times[node] = time;
+      walked[node] = distance;
+      push(time, node);
+    }
+  });
+
+  while (heapTimes.length > 0) {
+    const [time, node] = pop();
+    if (time > times[node]) continue;
+
+    for (let edge = edgeStart[node]; edge < edgeStart[node + 1]; edge++) {
+      const target = edgeTargets[edge];
+      const distance = walked[node] + edgeLengths[edge];
+      const arrival = time + edgeLengths[edge] / metersPerMinute;
+      if (arrival < times[target] && arrival <= maxTime && distance <= maxWalkMeters) {
+        times[target] = arrival;
+        walked[target] = distance;
+        push(arrival, target);
+      }
+    }
+  }
+
+  return times;
+};
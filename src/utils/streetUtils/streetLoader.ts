@@ -0,0 +1,52 @@
+/**
+ * Loading of street networks supplied by the user
+ */
+import { ProgressCallback } from '@/utils/gtfsUtils/gtfsTypes';
+import { StreetNetwork, StreetWorkerResponse } from './types';
+
+/**
+ * Farthest a stop may be from the street network to start walking on it, in meters
+ */
+export const MAX_STREET_SNAP_METERS = 250;
+
+/**
+ * Read the walkable network of an OSM extract in the street network worker
+ *
+ * @param file - GeoJSON (.geojson, .json) or OSM PBF (.osm.pbf) file
+ * @param progressCallback - Optional callback for progress reporting
+ * @returns Street network of the file
+ */
+export const loadStreetNetwork = (
+  file: File,
+  progressCallback?: ProgressCallback
+): Promise<StreetNetwork> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL('./streetWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    worker.onmessage = (event: MessageEvent<StreetWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        progressCallback?.(message.message);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.network);
+      } else {
+        reject(new Error(`Failed to read street network ${file.name}: ${message.message}`));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Street network worker failed'));
+    };
+
+    worker.postMessage({ file });
+  });
+};
@@ -0,0 +1,41 @@
+/**
+ * Web Worker entry point for reading street networks
+ *
+ * Large OSM extracts take a while to decompress and parse, so reading the file
+ * and building the walking graph happen here to keep the main thread responsive.
+ */
+import { parseStreetGeoJSON } from './osmGeoJSON';
+import { parseOsmPbf } from './osmPbf';
+import { buildStreetNetwork } from './streetGraph';
+import { StreetExtract, StreetWorkerRequest, StreetWorkerResponse } from './types';
+
+const post = (message: StreetWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<StreetWorkerRequest>) => {
+  try {
+    const { file } = event.data;
+    post({ type: 'progress', message: `Reading ${file.name}...` });
+
+    let extract: StreetExtract;
+    if (file.name.toLowerCase().endsWith('.pbf')) {
+      extract = await parseOsmPbf(await file.arrayBuffer(), (message) => post({ type: 'progress', message }));
+    } else {
+      extract = parseStreetGeoJSON(JSON.parse(await file.text()));
+    }
+
+    post({ type: 'progress', message: 'Building street graph...' });
+    const network = buildStreetNetwork(file.name, extract);
+    if (network.edgeTargets.length === 0) {
+      throw new Error('No walkable streets found');
+    }
+
+    post({ type: 'result', network });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
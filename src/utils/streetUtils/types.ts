@@ -0,0 +1,81 @@
+/**
+ * Type definitions for walking over a street network
+ */
+
+/**
+ * Walkable ways read from an OpenStreetMap extract, before building the graph
+ */
+export interface StreetExtract {
+  /** IDs of the nodes with known coordinates */
+  nodeIds: number[];
+  /** Latitude of each node */
+  nodeLats: number[];
+  /** Longitude of each node */
+  nodeLons: number[];
+  /** Node IDs of each walkable way, in order */
+  ways: number[][];
+}
+
+/**
+ * Walkable street network as a compact undirected graph
+ *
+ * Edges of each node are stored consecutively (compressed sparse rows), once
+ * in each direction, since pedestrians can walk both ways along every street.
+ */
+export interface StreetNetwork {
+  /** Name of the file the network was read from */
+  source: string;
+  /** Latitude of each node */
+  nodeLats: Float64Array;
+  /** Longitude of each node */
+  nodeLons: Float64Array;
+  /** Offset of each node's edges in `edgeTargets` (length nodes + 1) */
+  edgeStart: Uint32Array;
+  /** Node each edge leads to */
+  edgeTargets: Uint32Array;
+  /** Length of each edge in meters */
+  edgeLengths: Float32Array;
+}
+
+/**
+ * Node of the street network nearest to a position
+ */
+export interface NearestNode {
+  /** Node index */
+  node: number;
+  /** Straight-line distance to the node in meters */
+  distance: number;
+}
+
+/**
+ * Lookup of the street node nearest to a position (null if none is close enough)
+ */
+export type NodeLocator = (lat: number, lon: number) => NearestNode | null;
+
+/**
+ * Node where a walk over the street network starts
+ */
+export interface WalkSource {
+  /** Node index */
+  node: number;
+  /** Minutes at which the walk leaves the node */
+  time: number;
+  /** Meters already walked to get onto the street network */
+  walked: number;
+}
+
+/**
+ * Message sent to the street network worker
+ */
+export interface StreetWorkerRequest {
+  /** OSM extract supplied by the user (GeoJSON or .osm.pbf) */
+  file: File;
+}
+
+/**
+ * Message sent by the street network worker
+ */
+export type StreetWorkerResponse =
+  | { type: 'progress'; message: string }
+  | { type: 'result'; network: StreetNetwork }
+  | { type: 'error'; message: string };